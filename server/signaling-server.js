@@ -0,0 +1,106 @@
+// Minimal room-based WebRTC signaling server for local development and CI.
+//
+//   npm run signaling                 # listens on ws://localhost:8787
+//   PORT=9000 npm run signaling
+//
+// The server only relays offers, answers and ICE candidates between peers
+// that joined the same room. It never sees any media.
+
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8787;
+
+/** @type {Map<string, Map<string, import('ws').WebSocket>>} */
+const rooms = new Map();
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const leaveRoom = (socket) => {
+  const { roomId, peerId } = socket;
+  if (!roomId) return;
+
+  const room = rooms.get(roomId);
+  socket.roomId = undefined;
+  socket.peerId = undefined;
+  if (!room) return;
+
+  room.delete(peerId);
+  if (room.size === 0) {
+    rooms.delete(roomId);
+    return;
+  }
+  room.forEach(peer => send(peer, { type: 'peer-left', peerId }));
+};
+
+const handleMessage = (socket, message) => {
+  switch (message.type) {
+    case 'join': {
+      const { roomId, peerId } = message;
+      if (typeof roomId !== 'string' || !roomId || typeof peerId !== 'string' || !peerId) {
+        send(socket, { type: 'error', message: 'join requires roomId and peerId' });
+        return;
+      }
+
+      leaveRoom(socket);
+      const room = rooms.get(roomId) ?? new Map();
+      if (room.has(peerId)) {
+        send(socket, { type: 'error', message: `Peer ${peerId} is already in room ${roomId}` });
+        return;
+      }
+
+      send(socket, { type: 'joined', roomId, peerId, peers: [...room.keys()] });
+      room.forEach(peer => send(peer, { type: 'peer-joined', peerId }));
+      room.set(peerId, socket);
+      rooms.set(roomId, room);
+      socket.roomId = roomId;
+      socket.peerId = peerId;
+      return;
+    }
+    case 'leave':
+      leaveRoom(socket);
+      return;
+    case 'signal': {
+      const target = socket.roomId && rooms.get(socket.roomId)?.get(message.to);
+      if (!target) {
+        send(socket, { type: 'error', message: `Peer ${message.to} is not in this room` });
+        return;
+      }
+      send(target, { type: 'signal', from: socket.peerId, payload: message.payload });
+      return;
+    }
+    default:
+      send(socket, { type: 'error', message: `Unknown message type: ${message.type}` });
+  }
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket) => {
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send(socket, { type: 'error', message: 'Malformed message' });
+      return;
+    }
+    handleMessage(socket, message);
+  });
+
+  socket.on('close', () => leaveRoom(socket));
+});
+
+server.on('listening', () => {
+  console.log(`Signaling server listening on ws://localhost:${PORT}`);
+});
+
+const shutdown = () => {
+  server.clients.forEach(client => client.terminate());
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { RecordingLibraryItem } from '@/components/library/RecordingLibraryItem';
+import { RecordingPlayerDialog } from '@/components/library/RecordingPlayerDialog';
+import { useToast } from '@/hooks/use-toast';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import { downloadBlob } from '@/lib/export';
+import {
+  RecordingMetadata,
+  StorageUsage,
+  formatBytes,
+  recordingLibrary
+} from '@/lib/library';
+import { extensionForMimeType } from '@/lib/recording-formats';
+import { transcriptToText } from '@/lib/transcript';
+import { Library, LayoutGrid, List, Search, HardDrive, Loader2 } from 'lucide-react';
+
+type SortOrder = 'newest' | 'oldest' | 'title' | 'longest' | 'largest';
+
+const SORTERS: Record<SortOrder, (a: RecordingMetadata, b: RecordingMetadata) => number> = {
+  newest: (a, b) => b.createdAt - a.createdAt,
+  oldest: (a, b) => a.createdAt - b.createdAt,
+  title: (a, b) => a.title.localeCompare(b.title),
+  longest: (a, b) => b.duration - a.duration,
+  largest: (a, b) => b.size - a.size
+};
+
+// Browsers start evicting or refusing writes as the origin nears its quota
+const QUOTA_WARNING = 0.8;
+
+export const RecordingLibrary = () => {
+  const [recordings, setRecordings] = useState<RecordingMetadata[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const [search, setSearch] = useState('');
+  const [sortOrder, setSortOrder] = useLocalStorage<SortOrder>('recording-library:sort', 'newest');
+  const [layout, setLayout] = useLocalStorage<'grid' | 'list'>('recording-library:layout', 'grid');
+  const [playing, setPlaying] = useState<RecordingMetadata | null>(null);
+  const [renaming, setRenaming] = useState<RecordingMetadata | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const [deleting, setDeleting] = useState<RecordingMetadata | null>(null);
+
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, usage] = await Promise.all([
+        recordingLibrary.list(),
+        recordingLibrary.estimateStorage()
+      ]);
+      setRecordings(list);
+      setStorage(usage);
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error loading recording library:', error);
+      setLoadError(error instanceof Error ? error.message : 'Could not open the recording library');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return recordingLibrary.on('changed', refresh);
+  }, [refresh]);
+
+  const visibleRecordings = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const matches = query
+      ? recordings.filter(recording =>
+          recording.title.toLowerCase().includes(query) ||
+          (recording.transcript && transcriptToText(recording.transcript).toLowerCase().includes(query))
+        )
+      : recordings;
+    return [...matches].sort(SORTERS[sortOrder] ?? SORTERS.newest);
+  }, [recordings, search, sortOrder]);
+
+  const downloadRecording = async (recording: RecordingMetadata) => {
+    try {
+      const blob = await recordingLibrary.getBlob(recording.id);
+      if (!blob) throw new Error('The media for this recording is missing');
+      downloadBlob(blob, `${recording.title.replace(/[\\/:*?"<>|]/g, '-')}.${extensionForMimeType(recording.mimeType)}`);
+      toast({ title: "Download Started", description: recording.title });
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Could not read the recording",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const startRename = (recording: RecordingMetadata) => {
+    setRenaming(recording);
+    setNewTitle(recording.title);
+  };
+
+  const saveRename = async () => {
+    const title = newTitle.trim();
+    if (!renaming || !title) return;
+
+    try {
+      await recordingLibrary.update(renaming.id, { title });
+      setRenaming(null);
+    } catch (error) {
+      toast({
+        title: "Rename Failed",
+        description: error instanceof Error ? error.message : "Could not rename the recording",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    const recording = deleting;
+    setDeleting(null);
+
+    try {
+      await recordingLibrary.delete(recording.id);
+      toast({ title: "Recording Deleted", description: recording.title });
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Could not delete the recording",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const usageRatio = storage ? storage.usage / storage.quota : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Library Header */}
+      <Card className="border-2 border-primary/20 bg-gradient-to-r from-card via-card to-primary/5">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Library className="h-6 w-6 text-primary" />
+              <CardTitle>Recording Library</CardTitle>
+            </div>
+            <span className="text-sm text-muted-foreground">
+              {recordings.length} {recordings.length === 1 ? 'recording' : 'recordings'}
+            </span>
+          </div>
+        </CardHeader>
+        {storage && (
+          <CardContent className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <HardDrive className="h-4 w-4" />
+                Browser storage
+              </span>
+              <span className="text-muted-foreground">
+                {formatBytes(storage.usage)} of {formatBytes(storage.quota)} used
+              </span>
+            </div>
+            <Progress value={usageRatio * 100} />
+            {usageRatio > QUOTA_WARNING && (
+              <p className="text-xs text-destructive">
+                Storage is almost full. Delete or download old recordings so new ones can be saved.
+              </p>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search titles and transcripts"
+            className="pl-9"
+          />
+        </div>
+        <Select value={sortOrder} onValueChange={(value: SortOrder) => setSortOrder(value)}>
+          <SelectTrigger className="sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="newest">Newest first</SelectItem>
+            <SelectItem value="oldest">Oldest first</SelectItem>
+            <SelectItem value="title">Title</SelectItem>
+            <SelectItem value="longest">Longest</SelectItem>
+            <SelectItem value="largest">Largest</SelectItem>
+          </SelectContent>
+        </Select>
+        <ToggleGroup
+          type="single"
+          value={layout}
+          onValueChange={(value: 'grid' | 'list') => value && setLayout(value)}
+        >
+          <ToggleGroupItem value="grid" aria-label="Grid view">
+            <LayoutGrid className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="list" aria-label="List view">
+            <List className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {/* Recordings */}
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : loadError ? (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-destructive">{loadError}</CardContent>
+        </Card>
+      ) : visibleRecordings.length === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-center gap-2 text-muted-foreground">
+              <Library className="h-5 w-5" />
+              {recordings.length ? 'No recordings match your search' : 'No recordings yet'}
+            </CardTitle>
+          </CardHeader>
+          {!recordings.length && (
+            <CardContent className="text-center text-sm text-muted-foreground">
+              Recordings you make in the Recording Studio are saved here automatically.
+            </CardContent>
+          )}
+        </Card>
+      ) : (
+        <div className={layout === 'grid' ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4' : 'space-y-3'}>
+          {visibleRecordings.map(recording => (
+            <RecordingLibraryItem
+              key={recording.id}
+              recording={recording}
+              layout={layout}
+              onPlay={() => setPlaying(recording)}
+              onDownload={() => downloadRecording(recording)}
+              onRename={() => startRename(recording)}
+              onDelete={() => setDeleting(recording)}
+            />
+          ))}
+        </div>
+      )}
+
+      <RecordingPlayerDialog recording={playing} onClose={() => setPlaying(null)} />
+
+      {/* Rename */}
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Recording</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveRename();
+            }}
+            className="space-y-4"
+          >
+            <Input value={newTitle} onChange={(e) => setNewTitle(e.target.value)} autoFocus />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!newTitle.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The recording, its transcript and its minutes will be removed from this browser. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -1,8 +1,105 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { TranscriptionSettingsCard } from '@/components/recording/TranscriptionSettingsCard';
+import { MinutesSettingsCard } from '@/components/recording/MinutesSettingsCard';
+import { RecorderSettingsCard } from '@/components/recording/RecorderSettingsCard';
+import { RecordingLimitsCard } from '@/components/recording/RecordingLimitsCard';
+import { CameraOverlayCard } from '@/components/recording/CameraOverlayCard';
+import { AudioMixerControls } from '@/components/recording/AudioMixerControls';
+import { DeviceSelector } from '@/components/devices/DeviceSelector';
+import { LivePreview } from '@/components/recording/LivePreview';
+import { LiveWaveform } from '@/components/recording/LiveWaveform';
+import { RecordingPlayer } from '@/components/recording/RecordingPlayer';
+import { TrimEditorDialog } from '@/components/recording/TrimEditorDialog';
+import { TranscodeDialog } from '@/components/recording/TranscodeDialog';
+import { MeetingMinutesView } from '@/components/recording/MeetingMinutesView';
+import { TranscriptView } from '@/components/recording/TranscriptView';
+import { SubtitleExportPanel, SubtitleSettings } from '@/components/recording/SubtitleExportPanel';
+import { ExportItem, ExportPanel } from '@/components/recording/ExportPanel';
 import { useToast } from '@/hooks/use-toast';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import { useObjectUrl } from '@/hooks/use-object-url';
+import { useWaveform } from '@/hooks/use-waveform';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+import { NoAudioTrackError, convertToWav, extractAudio } from '@/lib/audio-extraction';
+import { Job, JobRunner, isJobActive, recordingJobs } from '@/lib/jobs';
+import {
+  CAPTURE_MODE_LABELS,
+  CaptureMode,
+  displayMediaOptionsFor,
+  getSharedMode,
+  isAudioOnly,
+  isDisplayCapture,
+  tabAudioOptions
+} from '@/lib/capture';
+import { AudioMixer, DEFAULT_AUDIO_MIXER_SETTINGS, microphoneConstraints } from '@/lib/audio-mixer';
+import { CompositorSource, DEFAULT_OVERLAY_LAYOUT, VideoCompositor } from '@/lib/compositor';
+import {
+  DEFAULT_DEVICE_PREFERENCES,
+  DeviceKind,
+  DevicePreferences,
+  deviceConstraint,
+  deviceManager,
+  isTrackLive,
+  setAudioOutput
+} from '@/lib/devices';
+import { RecordingChanges, RecordingPart, recordingLibrary } from '@/lib/library';
+import { RecordingSessionWriter, recordingSessions } from '@/lib/recording-sessions';
+import {
+  DEFAULT_RECORDING_LIMITS,
+  LIMIT_REASON_LABELS,
+  countDown,
+  describeLimits,
+  isPartDue,
+  reachedLimit
+} from '@/lib/recording-limits';
+import { RecordingClock } from '@/lib/recording-clock';
+import { TimeRange, editedDuration, shiftMinutes, shiftTranscript } from '@/lib/editing';
+import { setWebMDuration } from '@/lib/webm-duration';
+import { DEFAULT_TRANSCODE_SETTINGS } from '@/lib/transcode';
+import {
+  DEFAULT_RECORDER_SETTINGS,
+  buildAudioRecorderOptions,
+  buildRecorderOptions,
+  extensionForMimeType
+} from '@/lib/recording-formats';
+import {
+  NegotiatedSettings,
+  getQualityPreset,
+  readNegotiatedSettings,
+  videoConstraintsFor
+} from '@/lib/quality-presets';
+import { format } from 'date-fns';
+import {
+  buildMinutesExport,
+  buildTranscriptExport,
+  downloadBlob,
+  timestampedName
+} from '@/lib/export';
+import {
+  DEFAULT_TRANSCRIPTION_ENDPOINT,
+  TranscriptionEngine,
+  TranscriptionProgress,
+  TranscriptionSettings,
+  createTranscriptionEngine
+} from '@/lib/transcription';
+import { Transcript, isTranscriptEmpty, transcriptToText } from '@/lib/transcript';
+import { DEFAULT_SUBTITLE_OPTIONS, SubtitleFormat, buildSubtitles } from '@/lib/subtitles';
+import {
+  DEFAULT_LLM_ENDPOINT,
+  DEFAULT_LLM_MODEL,
+  MeetingMinutes,
+  MinutesSettings,
+  createMinutesExtractor,
+  isMinutesEmpty,
+  minutesToText
+} from '@/lib/minutes';
 import { 
   Video, 
   Mic, 
@@ -12,12 +109,20 @@ import {
   Pause, 
   Download, 
   Monitor,
-  Smartphone,
+  AppWindow,
+  Globe,
   Camera,
   Settings,
   FileText,
   Loader2,
-  ClipboardList
+  ClipboardList,
+  AlertCircle,
+  RotateCcw,
+  AudioLines,
+  FileVideo,
+  Scissors,
+  ScreenShareOff,
+  X
 } from 'lucide-react';
 
 interface RecordingState {
@@ -25,32 +130,219 @@ interface RecordingState {
   isPaused: boolean;
   duration: number;
   recordedBlob: Blob | null;
-  transcript: string;
-  meetingPoints: string[];
-  isProcessing: boolean;
+  /** Seconds in `recordedBlob`; after a split, only the last part's, not the session's. */
+  recordedDuration: number;
+  transcript: Transcript | null;
+  minutes: MeetingMinutes | null;
 }
 
+const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  engineId: 'whisper-wasm',
+  httpEndpoint: DEFAULT_TRANSCRIPTION_ENDPOINT,
+  language: ''
+};
+
+const DEFAULT_MINUTES_SETTINGS: MinutesSettings = {
+  extractorId: 'local',
+  llmEndpoint: DEFAULT_LLM_ENDPOINT,
+  llmModel: DEFAULT_LLM_MODEL
+};
+
+/** How the shared surface is doing, as far as the browser's own sharing controls go. */
+type SharingStatus = 'live' | 'hidden' | 'ended';
+
+// How long a recording whose sharing was stopped waits for a new source before finishing
+const SHARE_AGAIN_GRACE_MS = 60_000;
+
+const DEFAULT_SUBTITLE_SETTINGS: SubtitleSettings = {
+  ...DEFAULT_SUBTITLE_OPTIONS,
+  includeWithRecording: true
+};
+
 export const RecordingStudio = () => {
   const [recordingState, setRecordingState] = useState<RecordingState>({
     isRecording: false,
     isPaused: false,
     duration: 0,
     recordedBlob: null,
-    transcript: '',
-    meetingPoints: [],
-    isProcessing: false
+    recordedDuration: 0,
+    transcript: null,
+    minutes: null
   });
   
   const [micEnabled, setMicEnabled] = useState(true);
-  const [captureMode, setCaptureMode] = useState<'screen' | 'window' | 'camera'>('screen');
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('screen');
+  // Audio-only recordings can take a tab's audio alongside the microphone
+  const [includeTabAudio, setIncludeTabAudio] = useLocalStorage('recording-studio:tab-audio', false);
+  // Swapping sources means drawing through a canvas, which costs frame rate and quality, so it is opt-in
+  const [switchableSources, setSwitchableSources] = useLocalStorage('recording-studio:switchable-sources', false);
+  const [transcriptionSettings, setTranscriptionSettings] = useLocalStorage(
+    'recording-studio:transcription',
+    DEFAULT_TRANSCRIPTION_SETTINGS
+  );
+  const [jobs, setJobs] = useState<Job[]>(() => recordingJobs.getJobs());
+  const [negotiatedSettings, setNegotiatedSettings] = useState<NegotiatedSettings | null>(null);
+  const [previewTime, setPreviewTime] = useState(0);
+  const [subtitleSettings, setSubtitleSettings] = useLocalStorage(
+    'recording-studio:subtitles',
+    DEFAULT_SUBTITLE_SETTINGS
+  );
+  const [minutesSettings, setMinutesSettings] = useLocalStorage(
+    'recording-studio:minutes',
+    DEFAULT_MINUTES_SETTINGS
+  );
+  const [recorderSettings, setRecorderSettings] = useLocalStorage(
+    'recording-studio:recorder',
+    DEFAULT_RECORDER_SETTINGS
+  );
+  const [overlayLayout, setOverlayLayout] = useLocalStorage(
+    'recording-studio:camera-overlay',
+    DEFAULT_OVERLAY_LAYOUT
+  );
+  const [audioMixerSettings, setAudioMixerSettings] = useLocalStorage(
+    'recording-studio:audio-mixer',
+    DEFAULT_AUDIO_MIXER_SETTINGS
+  );
+  const [audioMixer, setAudioMixer] = useState<AudioMixer | null>(null);
+  const [devicePreferences, setDevicePreferences] = useLocalStorage(
+    'media-devices',
+    DEFAULT_DEVICE_PREFERENCES
+  );
+  const devices = useMediaDevices();
+  const [sharingStatus, setSharingStatus] = useState<SharingStatus>('live');
+  // streamRef's stream, as state so the live preview follows it
+  const [liveStream, setLiveStream] = useState<MediaStream | null>(null);
+  const [showLivePreview, setShowLivePreview] = useLocalStorage('recording-studio:live-preview', true);
+  const [recordingLimits, setRecordingLimits] = useLocalStorage(
+    'recording-studio:limits',
+    DEFAULT_RECORDING_LIMITS
+  );
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [partIndex, setPartIndex] = useState(1);
+  const [skipSilences, setSkipSilences] = useLocalStorage('recording-studio:skip-silences', false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isTranscodeOpen, setIsTranscodeOpen] = useState(false);
+  const [transcodeSettings, setTranscodeSettings] = useLocalStorage(
+    'recording-studio:transcode',
+    DEFAULT_TRANSCODE_SETTINGS
+  );
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
+  // The raw captures behind streamRef's recorded stream, stopped with it
+  const sourceStreamsRef = useRef<MediaStream[]>([]);
+  const compositorRef = useRef<VideoCompositor | null>(null);
+  const audioMixerRef = useRef<AudioMixer | null>(null);
+  const microphoneRef = useRef<MediaStream | null>(null);
+  const shareAgainTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Track listeners outlive the render that added them
+  const sharingEndedRef = useRef<() => void>(() => {});
+  // Bytes recorded across every part, for the size limit
+  const recordedBytesRef = useRef(0);
+  const partRef = useRef<{ part: RecordingPart; startedAt: number } | null>(null);
+  const isSplittingRef = useRef(false);
+  // The interval outlives the render that started it; limits are checked against the latest settings
+  const limitsCheckRef = useRef<() => void>(() => {});
+  const countdownRef = useRef<AbortController | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const clockRef = useRef(new RecordingClock());
+  // Seconds recorded, readable from MediaRecorder callbacks that close over old state
+  const durationRef = useRef(0);
+  const startedAtRef = useRef(0);
+  const recordedModeRef = useRef<CaptureMode>('screen');
+  const transcriptionEngineRef = useRef<TranscriptionEngine | null>(null);
+  // Where the live engine's progress goes once its recording is being processed
+  const engineProgressRef = useRef<((progress: TranscriptionProgress) => void) | null>(null);
+  // Jobs run after the render that queued them; retries should see the current settings
+  const transcriptionSettingsRef = useRef(transcriptionSettings);
+  transcriptionSettingsRef.current = transcriptionSettings;
+  const minutesSettingsRef = useRef(minutesSettings);
+  minutesSettingsRef.current = minutesSettings;
+  const previewRef = useRef<HTMLVideoElement>(null);
+  
+  const recordingUrl = useObjectUrl(recordingState.recordedBlob);
+  const waveform = useWaveform(recordingState.recordedBlob);
+  const captionsBlob = useMemo(() => {
+    return isTranscriptEmpty(recordingState.transcript)
+      ? null
+      : buildSubtitles(recordingState.transcript, 'vtt', subtitleSettings);
+  }, [recordingState.transcript, subtitleSettings]);
+  const captionsUrl = useObjectUrl(captionsBlob);
   
   const { toast } = useToast();
 
+  // Earlier recordings, and every part of a split one, have jobs of their own; the studio shows the latest
+  const latestJob = (kind: string) => [...jobs].reverse().find(job => job.kind === kind);
+  const transcriptionJob = latestJob('transcription');
+  const minutesJob = latestJob('minutes');
+  const isProcessing = jobs.some(isJobActive);
+  const isTranscribing = isJobActive(transcriptionJob);
+  const runningJob = jobs.find(job => job.status === 'running');
+  // The capture is already live while the countdown runs, so its settings are fixed from then on
+  const isCaptureActive = recordingState.isRecording || countdown !== null;
+
+  const jobError = (job: Job | undefined, cancelledMessage: string): string | null => {
+    if (job?.status === 'failed') return job.error ?? 'Something went wrong';
+    if (job?.status === 'cancelled') return cancelledMessage;
+    return null;
+  };
+  const transcriptError = jobError(transcriptionJob, 'Transcription was cancelled');
+  const minutesError = jobError(minutesJob, 'Minutes extraction was cancelled');
+
+  useEffect(() => {
+    const unsubscribe = [
+      recordingJobs.on('changed', setJobs),
+      recordingJobs.on('settled', (job) => {
+        const isTranscription = job.kind === 'transcription';
+        if (job.status === 'succeeded') {
+          if (!isTranscription) {
+            toast({
+              title: "Processing Complete",
+              description: "Transcript and meeting minutes are ready",
+            });
+          }
+        } else if (job.status === 'cancelled') {
+          toast({ title: isTranscription ? "Transcription Cancelled" : "Minutes Extraction Cancelled" });
+        } else if (job.status === 'failed') {
+          toast({
+            title: isTranscription ? "Processing Failed" : "Minutes Unavailable",
+            description: job.error,
+            variant: "destructive"
+          });
+        }
+      })
+    ];
+
+    // Jobs carry on without the studio and save to the library; only stop listening
+    return () => unsubscribe.forEach(stop => stop());
+  }, [toast]);
+
+  // Switching tabs unmounts the studio, and nothing could stop a recording left
+  // running after that; finish it instead, so onstop saves it to the library
+  useEffect(() => {
+    // The refs themselves, so cleanup reads what they hold at unmount
+    const countdown = countdownRef;
+    const recorderRef = mediaRecorderRef;
+    const clock = clockRef;
+    const interval = intervalRef;
+    const shareAgainTimeout = shareAgainTimeoutRef;
+    return () => {
+      countdown.current?.abort();
+      if (shareAgainTimeout.current) clearTimeout(shareAgainTimeout.current);
+      if (interval.current) clearInterval(interval.current);
+      clock.current.pause();
+
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.stop();
+        toast({
+          title: "Recording Stopped",
+          description: "Leaving the studio finished the recording. It is being saved to the library.",
+        });
+      }
+    };
+  }, [toast]);
+
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -58,119 +350,569 @@ export const RecordingStudio = () => {
   };
 
   const startTimer = () => {
+    stopTimer();
+    clockRef.current.resume();
+    // The interval only refreshes the display; the clock keeps the time
     intervalRef.current = setInterval(() => {
-      setRecordingState(prev => ({ ...prev, duration: prev.duration + 1 }));
-    }, 1000);
+      durationRef.current = clockRef.current.elapsed() / 1000;
+      setRecordingState(prev => ({ ...prev, duration: Math.floor(durationRef.current) }));
+      limitsCheckRef.current();
+    }, 250);
   };
 
   const stopTimer = () => {
+    clockRef.current.pause();
+    durationRef.current = clockRef.current.elapsed() / 1000;
     if (intervalRef.current) {
       clearInterval(intervalRef.current);
       intervalRef.current = null;
     }
   };
 
-  const getMediaConstraints = () => {
-    const constraints: any = {
-      video: true,
-      audio: micEnabled
+  /** The camera as the recording itself, or as the overlay on a display capture. */
+  const getCameraConstraints = (deviceId: string, source: CompositorSource): MediaTrackConstraints => {
+    const video = source === 'main'
+      ? videoConstraintsFor(getQualityPreset(recorderSettings.presetId))
+      : { width: { ideal: 1280 }, height: { ideal: 720 } };
+    return { ...video, facingMode: 'user', ...deviceConstraint(deviceId) };
+  };
+
+  const getMicrophoneConstraints = (deviceId: string): MediaTrackConstraints => ({
+    ...microphoneConstraints(audioMixerSettings),
+    ...deviceConstraint(deviceId)
+  });
+
+  useEffect(() => {
+    compositorRef.current?.setLayout(overlayLayout);
+  }, [overlayLayout]);
+
+  useEffect(() => {
+    audioMixer?.setSettings(audioMixerSettings);
+  }, [audioMixer, audioMixerSettings]);
+
+  /** Stops every capture, the compositor and the mixer behind the current recording. */
+  const releaseCapture = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setLiveStream(null);
+    sourceStreamsRef.current.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+    sourceStreamsRef.current = [];
+    compositorRef.current?.stop();
+    compositorRef.current = null;
+    microphoneRef.current = null;
+    clearShareAgainTimeout();
+    setSharingStatus('live');
+    audioMixerRef.current?.close().catch(error => console.error('Error closing audio mixer:', error));
+    audioMixerRef.current = null;
+    setAudioMixer(null);
+  };
+
+  /**
+   * Routes the video through a compositor when it draws an overlay or sources
+   * may be swapped mid-recording; otherwise, or if it fails, records the source as is.
+   */
+  const composeVideo = async (source: MediaStream): Promise<MediaStream> => {
+    const withOverlay = isDisplayCapture(captureMode) && overlayLayout.enabled;
+    if (!withOverlay && !switchableSources) return source;
+
+    let camera: MediaStream | null = null;
+    try {
+      if (withOverlay) {
+        camera = await navigator.mediaDevices.getUserMedia({
+          video: getCameraConstraints(devicePreferences.videoinput, 'overlay')
+        });
+      }
+      const compositor = new VideoCompositor(
+        source,
+        camera,
+        overlayLayout,
+        getQualityPreset(recorderSettings.presetId).frameRate
+      );
+      const composited = await compositor.start();
+      compositorRef.current = compositor;
+      return composited;
+    } catch (error) {
+      console.error('Error starting video compositor:', error);
+      camera?.getTracks().forEach(track => track.stop());
+      if (withOverlay) {
+        toast({
+          title: "Camera Overlay Unavailable",
+          description: "Recording the screen without the camera.",
+          variant: "destructive"
+        });
+      }
+      return source;
+    }
+  };
+
+  /** Moves the running recording to another microphone or camera without stopping it. */
+  const switchRecordingDevice = async (kind: DeviceKind, deviceId: string) => {
+    const mixer = audioMixerRef.current;
+    const compositor = compositorRef.current;
+
+    if (kind === 'audioinput' && mixer?.has('microphone')) {
+      const microphone = await navigator.mediaDevices.getUserMedia({ audio: getMicrophoneConstraints(deviceId) });
+      const previous = microphoneRef.current;
+      mixer.addSource('microphone', microphone);
+      microphoneRef.current = microphone;
+      sourceStreamsRef.current = [...sourceStreamsRef.current.filter(stream => stream !== previous), microphone];
+      previous?.getTracks().forEach(track => track.stop());
+    } else if (kind === 'videoinput' && !compositor && captureMode === 'camera') {
+      throw new Error('Turn on source switching before recording to change the camera mid-recording.');
+    } else if (kind === 'videoinput' && compositor) {
+      const source: CompositorSource = captureMode === 'camera' ? 'main' : 'overlay';
+      if (!compositor.getSource(source)) return;
+      const camera = await navigator.mediaDevices.getUserMedia({ video: getCameraConstraints(deviceId, source) });
+      await compositor.replaceSource(source, camera);
+    }
+  };
+
+  const changeDevices = (next: DevicePreferences) => {
+    const changed = (Object.keys(next) as DeviceKind[]).filter(kind => next[kind] !== devicePreferences[kind]);
+    setDevicePreferences(next);
+    if (!recordingState.isRecording) return;
+
+    changed.forEach(kind => {
+      switchRecordingDevice(kind, next[kind]).catch(error => {
+        console.error('Error switching device:', error);
+        toast({
+          title: "Could Not Switch Device",
+          description: error instanceof Error ? error.message : "The recording continues on the previous device.",
+          variant: "destructive"
+        });
+      });
+    });
+  };
+
+  // The fallback below runs on device changes only, but should switch with the current settings
+  const switchRecordingDeviceRef = useRef(switchRecordingDevice);
+  switchRecordingDeviceRef.current = switchRecordingDevice;
+
+  // An unplugged microphone or camera ends its track; carry on with the default one
+  useEffect(() => {
+    if (!recordingState.isRecording) return;
+
+    const cameraSource: CompositorSource = captureMode === 'camera' ? 'main' : 'overlay';
+    const camera = compositorRef.current?.getSource(cameraSource);
+    const lost: DeviceKind[] = [
+      ...(microphoneRef.current && !isTrackLive(microphoneRef.current.getAudioTracks()[0], devices)
+        ? ['audioinput' as const]
+        : []),
+      ...(camera && !isTrackLive(camera.getVideoTracks()[0], devices) ? ['videoinput' as const] : [])
+    ];
+
+    lost.forEach(kind => {
+      switchRecordingDeviceRef.current(kind, '')
+        .then(() => toast({
+          title: kind === 'audioinput' ? "Microphone Disconnected" : "Camera Disconnected",
+          description: "Switched to the system default so the recording can continue.",
+        }))
+        .catch(error => console.error('Error falling back to the default device:', error));
+    });
+  }, [devices, recordingState.isRecording, captureMode, toast]);
+
+  useEffect(() => {
+    if (!previewRef.current) return;
+    setAudioOutput(previewRef.current, devicePreferences.audiooutput)
+      .catch(error => console.error('Error selecting audio output:', error));
+  }, [recordingUrl, devicePreferences.audiooutput]);
+
+  const clearShareAgainTimeout = () => {
+    if (shareAgainTimeoutRef.current) {
+      clearTimeout(shareAgainTimeoutRef.current);
+      shareAgainTimeoutRef.current = null;
+    }
+  };
+
+  /** Follows the browser's own sharing controls: "Stop sharing" ends the track, hiding the surface mutes it. */
+  const watchDisplay = (display: MediaStream) => {
+    const track = display.getVideoTracks()[0];
+    if (!track) return;
+    track.addEventListener('mute', () => setSharingStatus(status => (status === 'ended' ? status : 'hidden')));
+    track.addEventListener('unmute', () => setSharingStatus(status => (status === 'ended' ? status : 'live')));
+    // Our own track.stop() calls do not fire `ended`, only the browser's UI does
+    track.addEventListener('ended', () => sharingEndedRef.current());
+  };
+
+  const handleSharingEnded = () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return;
+
+    // Without a compositor the recorder is tied to the ended track and cannot continue
+    if (!compositorRef.current) {
+      stopRecording();
+      toast({
+        title: "Screen Sharing Stopped",
+        description: "The recording was finished and saved to the library. Turn on source switching to share another source instead.",
+      });
+      return;
+    }
+
+    setSharingStatus('ended');
+    if (recorder.state === 'recording') {
+      recorder.pause();
+      transcriptionEngineRef.current?.pause?.();
+      stopTimer();
+    }
+    setRecordingState(prev => ({ ...prev, isPaused: true }));
+
+    clearShareAgainTimeout();
+    shareAgainTimeoutRef.current = setTimeout(() => {
+      // Nothing new was shared in time; keep what was recorded
+      shareAgainTimeoutRef.current = null;
+      stopRecording();
+    }, SHARE_AGAIN_GRACE_MS);
+    toast({
+      title: "Screen Sharing Stopped",
+      description: "Share another source to continue this recording, or it finishes in a minute.",
+    });
+  };
+  sharingEndedRef.current = handleSharingEnded;
+
+  /** Picks a new surface after sharing stopped and carries on recording into the same file. */
+  const shareAgain = async () => {
+    const compositor = compositorRef.current;
+    const recorder = mediaRecorderRef.current;
+    if (!compositor || !recorder || !isDisplayCapture(captureMode)) return;
+
+    let display: MediaStream;
+    try {
+      display = await navigator.mediaDevices.getDisplayMedia(
+        displayMediaOptionsFor(captureMode, videoConstraintsFor(getQualityPreset(recorderSettings.presetId)))
+      );
+    } catch (error) {
+      // Usually the picker was dismissed; the grace period keeps running
+      console.error('Error sharing again:', error);
+      return;
+    }
+
+    clearShareAgainTimeout();
+    const previous = compositor.getSource('main');
+    await compositor.replaceSource('main', display);
+    sourceStreamsRef.current = [...sourceStreamsRef.current.filter(stream => stream !== previous), display];
+    const mixer = audioMixerRef.current;
+    if (mixer && !mixer.addSource('system', display)) {
+      mixer.removeSource('system');
+    }
+    watchDisplay(display);
+    setSharingStatus('live');
+
+    recorder.resume();
+    transcriptionEngineRef.current?.resume?.();
+    startTimer();
+    setRecordingState(prev => ({ ...prev, isPaused: false }));
+    toast({ title: "Recording Resumed", description: "Now recording the newly shared source" });
+  };
+
+  /** A transcription engine for the part about to be recorded; null if it could not start. */
+  const startTranscriptionEngine = async (): Promise<TranscriptionEngine | null> => {
+    const settings = transcriptionSettingsRef.current;
+    const engine = createTranscriptionEngine(settings);
+    try {
+      await engine.start({
+        language: settings.language || undefined,
+        onProgress: (progress) => engineProgressRef.current?.(progress)
+      });
+      return engine;
+    } catch (error) {
+      console.error('Error starting transcription:', error);
+      toast({
+        title: "Transcription Unavailable",
+        description: error instanceof Error ? error.message : "The recording will not be transcribed.",
+        variant: "destructive"
+      });
+      return null;
+    }
+  };
+
+  /**
+   * Records the live stream into a file of its own. A recording split into
+   * parts runs one recorder per part over the same capture; the recorder still
+   * current when it stops is the last part, and releases the capture.
+   */
+  const startPart = (recordedMode: CaptureMode, engine: TranscriptionEngine | null, part: RecordingPart) => {
+    const stream = streamRef.current;
+    if (!stream) throw new Error('Nothing is being captured');
+
+    const recorderOptions = isAudioOnly(recordedMode)
+      ? buildAudioRecorderOptions(recorderSettings)
+      : buildRecorderOptions(recorderSettings);
+    const mediaRecorder = new MediaRecorder(stream, recorderOptions);
+    const chunks: Blob[] = [];
+    // Where this part starts on the recording clock, in seconds
+    const startedAt = clockRef.current.elapsed() / 1000;
+    const createdAt = Date.now();
+
+    // Chunks also go to disk as they arrive, so a crash does not lose the recording.
+    // Chunks that arrive before the session is open wait for it, in order.
+    const session = recordingSessions
+      .begin({
+        captureMode: recordedMode,
+        mimeType: mediaRecorder.mimeType || recorderOptions.mimeType || 'video/webm'
+      })
+      .catch((error): RecordingSessionWriter | null => {
+        console.error('Error starting crash-safe session:', error);
+        toast({
+          title: "Crash Recovery Unavailable",
+          description: "This recording is only kept in memory until you stop it.",
+        });
+        return null;
+      });
+
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        const duration = durationRef.current - startedAt;
+        chunks.push(event.data);
+        recordedBytesRef.current += event.data.size;
+        void session.then(writer => writer?.append(event.data, duration));
+      }
     };
 
-    if (captureMode === 'screen') {
-      return constraints;
-    } else if (captureMode === 'camera') {
-      constraints.video = { facingMode: 'user' };
+    mediaRecorder.onstop = async () => {
+      // A split has already handed the capture on to the next part's recorder
+      const isLast = mediaRecorderRef.current === mediaRecorder;
+      if (isLast) {
+        releaseCapture();
+        setNegotiatedSettings(null);
+      }
+      const duration = clockRef.current.elapsed() / 1000 - startedAt;
+
+      // The recorder reports the container and codecs it actually used
+      const recorded = new Blob(chunks, {
+        type: mediaRecorder.mimeType || chunks[0]?.type || 'video/webm'
+      });
+      // Recorder WebM declares no duration, which leaves it unseekable in many players
+      let blob = await setWebMDuration(recorded, duration * 1000);
+      if (isAudioOnly(recordedMode) && recorderSettings.audioFormat === 'wav') {
+        try {
+          blob = await convertToWav(blob);
+        } catch (error) {
+          console.error('Error converting recording to WAV:', error);
+          toast({
+            title: "Kept as Opus",
+            description: "The recording could not be converted to WAV.",
+            variant: "destructive"
+          });
+        }
+      }
+      // Earlier parts go straight to the library; the studio shows the last one
+      if (isLast) {
+        setRecordingState(prev => ({ ...prev, recordedBlob: blob, recordedDuration: duration }));
+      }
+
+      // A session that never split is an ordinary recording rather than a part
+      const savedPart = isLast && part.index === 1 ? undefined : part;
+      const libraryEntry = saveToLibrary(blob, recordedMode, duration, createdAt, savedPart);
+      // Keep the on-disk copy until the library has the recording
+      Promise.all([libraryEntry, session])
+        .then(([id, writer]) => (id ? writer?.finish() : writer?.close()))
+        .catch(error => console.error('Error closing crash-safe session:', error));
+
+      // The job owns the engine from here on
+      if (transcriptionEngineRef.current === engine) {
+        transcriptionEngineRef.current = null;
+      }
+      recordingJobs.enqueue(
+        'transcription',
+        savedPart ? `Transcription (part ${part.index})` : 'Transcription',
+        transcribeRecording(blob, engine, libraryEntry, createdAt)
+      );
+    };
+
+    mediaRecorderRef.current = mediaRecorder;
+    transcriptionEngineRef.current = engine;
+    partRef.current = { part, startedAt };
+    setPartIndex(part.index);
+    mediaRecorder.start(1000); // Collect data every second
+  };
+
+  /** Closes the current part and carries on recording the same capture into the next one. */
+  const splitPart = async () => {
+    const previous = mediaRecorderRef.current;
+    const current = partRef.current;
+    if (!previous || !current || isSplittingRef.current) return;
+
+    isSplittingRef.current = true;
+    // Each part is transcribed on its own: a live engine stops listening here,
+    // and the next part gets an engine of its own
+    const previousEngine = transcriptionEngineRef.current;
+    previousEngine?.pause?.();
+    const engine = await startTranscriptionEngine();
+    try {
+      // Stopped or paused while the engine started; resuming resumes the current
+      // part's engine, and the split happens on a later tick
+      if (mediaRecorderRef.current !== previous || previous.state !== 'recording') {
+        engine?.cancel();
+        return;
+      }
+      // Start the next recorder first, so nothing falls between the parts
+      startPart(recordedModeRef.current, engine, { ...current.part, index: current.part.index + 1 });
+      previous.stop();
+      toast({
+        title: `Recording Part ${current.part.index + 1}`,
+        description: `Part ${current.part.index} is being saved to the library.`,
+      });
+    } catch (error) {
+      console.error('Error starting the next part:', error);
+      engine?.cancel();
+      previousEngine?.resume?.();
+      toast({
+        title: "Could Not Start a New Part",
+        description: "The recording continues in the current part.",
+        variant: "destructive"
+      });
+    } finally {
+      isSplittingRef.current = false;
     }
-    
-    return constraints;
   };
 
-  const startRecording = useCallback(async () => {
+  const startRecording = async () => {
     try {
-      let stream: MediaStream;
+      let source: MediaStream;
+      // What the user actually shared; the picker lets them choose any surface
+      let recordedMode = captureMode;
       
-      if (captureMode === 'screen' || captureMode === 'window') {
-        // Screen/window capture
-        stream = await navigator.mediaDevices.getDisplayMedia({
-          video: { 
-            width: { ideal: 1920 },
-            height: { ideal: 1080 }
-          },
-          audio: true
-        });
-        
-        // Add microphone if enabled
-        if (micEnabled) {
-          const audioStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-          const audioTrack = audioStream.getAudioTracks()[0];
-          stream.addTrack(audioTrack);
+      if (isDisplayCapture(captureMode)) {
+        // Screen/window/tab capture, with system audio where the browser offers it
+        source = await navigator.mediaDevices.getDisplayMedia(
+          displayMediaOptionsFor(captureMode, videoConstraintsFor(getQualityPreset(recorderSettings.presetId)))
+        );
+
+        const sharedMode = getSharedMode(source);
+        if (sharedMode && sharedMode !== captureMode) {
+          recordedMode = sharedMode;
+          toast({
+            title: "Different Source Shared",
+            description: `Recording ${CAPTURE_MODE_LABELS[sharedMode]} instead of ${CAPTURE_MODE_LABELS[captureMode]}.`,
+          });
+        }
+        watchDisplay(source);
+      } else if (isAudioOnly(captureMode)) {
+        source = new MediaStream();
+        if (includeTabAudio) {
+          source = await navigator.mediaDevices.getDisplayMedia(tabAudioOptions());
+          // Only the audio is wanted; the video was just the price of asking
+          source.getVideoTracks().forEach(track => track.stop());
+          if (!source.getAudioTracks().length) {
+            toast({
+              title: "No Tab Audio",
+              description: "Tick \"Share tab audio\" in the picker to include it. Recording the microphone only.",
+            });
+          }
+        }
+        if (!micEnabled && !source.getAudioTracks().length) {
+          throw new Error('Enable the microphone or share a tab with audio to record audio only');
         }
       } else {
         // Camera capture
-        stream = await navigator.mediaDevices.getUserMedia(getMediaConstraints());
+        source = await navigator.mediaDevices.getUserMedia({
+          video: getCameraConstraints(devicePreferences.videoinput, 'main')
+        });
       }
+      sourceStreamsRef.current = [source];
 
-      streamRef.current = stream;
-      chunksRef.current = [];
+      let microphone: MediaStream | null = null;
+      if (micEnabled) {
+        microphone = await navigator.mediaDevices.getUserMedia({
+          audio: getMicrophoneConstraints(devicePreferences.audioinput)
+        });
+        sourceStreamsRef.current.push(microphone);
+        microphoneRef.current = microphone;
+      }
+      // Device labels only become readable once a capture has been allowed
+      void deviceManager.refresh();
 
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'video/webm;codecs=vp8,opus'
-      });
+      // Constraints are only ideals; show what the source really delivers
+      setNegotiatedSettings(isAudioOnly(captureMode) ? null : readNegotiatedSettings(source));
 
-      mediaRecorderRef.current = mediaRecorder;
+      const video = isAudioOnly(captureMode) ? new MediaStream() : await composeVideo(source);
 
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          chunksRef.current.push(event.data);
-        }
-      };
-
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-        setRecordingState(prev => ({ ...prev, recordedBlob: blob }));
-        
-        // Clean up stream
-        if (streamRef.current) {
-          streamRef.current.getTracks().forEach(track => track.stop());
-          streamRef.current = null;
+      // Recorders given several audio tracks keep only one, so record a single mix
+      const mixer = new AudioMixer(audioMixerSettings);
+      mixer.addSource('system', source);
+      if (microphone) mixer.addSource('microphone', microphone);
+      audioMixerRef.current = mixer;
+      setAudioMixer(mixer);
+
+      const stream = new MediaStream([...video.getVideoTracks(), ...(mixer.hasSources ? [mixer.track] : [])]);
+      streamRef.current = stream;
+      setLiveStream(stream);
+
+      // The capture is live; give the user a moment before anything is recorded
+      if (recordingLimits.countdown > 0) {
+        const controller = new AbortController();
+        countdownRef.current = controller;
+        const completed = await countDown(recordingLimits.countdown, setCountdown, controller.signal);
+        countdownRef.current = null;
+        setCountdown(null);
+        if (!completed) {
+          releaseCapture();
+          setNegotiatedSettings(null);
+          toast({ title: "Recording Cancelled" });
+          return;
         }
-      };
+      }
+
+      // Live engines have to listen while we record, so every engine starts here
+      transcriptionEngineRef.current?.cancel();
+      const engine = await startTranscriptionEngine();
+      transcriptionEngineRef.current = engine;
 
-      mediaRecorder.start(1000); // Collect data every second
+      clockRef.current = new RecordingClock();
+      durationRef.current = 0;
+      startedAtRef.current = Date.now();
+      recordedBytesRef.current = 0;
+      recordedModeRef.current = recordedMode;
+      startPart(recordedMode, engine, {
+        sessionId: `session-${startedAtRef.current.toString(36)}`,
+        sessionStartedAt: startedAtRef.current,
+        index: 1
+      });
       setRecordingState(prev => ({ 
         ...prev, 
         isRecording: true, 
         isPaused: false,
         duration: 0,
-        recordedBlob: null 
+        recordedBlob: null,
+        recordedDuration: 0,
+        transcript: null,
+        minutes: null
       }));
       
       startTimer();
       
       toast({
         title: "Recording Started",
-        description: `${captureMode} recording is now active`,
+        description: `${CAPTURE_MODE_LABELS[recordedMode]} recording is now active`,
       });
       
     } catch (error) {
       console.error('Error starting recording:', error);
+      transcriptionEngineRef.current?.cancel();
+      transcriptionEngineRef.current = null;
+      releaseCapture();
+      setNegotiatedSettings(null);
       toast({
         title: "Recording Failed",
-        description: "Failed to start recording. Please check permissions.",
+        description: error instanceof Error && isAudioOnly(captureMode)
+          ? error.message
+          : "Failed to start recording. Please check permissions.",
         variant: "destructive"
       });
     }
-  }, [captureMode, micEnabled, toast]);
+  };
 
   const pauseRecording = () => {
     if (mediaRecorderRef.current && recordingState.isRecording) {
       if (recordingState.isPaused) {
         mediaRecorderRef.current.resume();
+        transcriptionEngineRef.current?.resume?.();
         startTimer();
         setRecordingState(prev => ({ ...prev, isPaused: false }));
         toast({ title: "Recording Resumed" });
       } else {
         mediaRecorderRef.current.pause();
+        transcriptionEngineRef.current?.pause?.();
         stopTimer();
         setRecordingState(prev => ({ ...prev, isPaused: true }));
         toast({ title: "Recording Paused" });
@@ -180,6 +922,7 @@ export const RecordingStudio = () => {
 
   const stopRecording = () => {
     if (mediaRecorderRef.current) {
+      clearShareAgainTimeout();
       mediaRecorderRef.current.stop();
       stopTimer();
       setRecordingState(prev => ({ 
@@ -192,244 +935,276 @@ export const RecordingStudio = () => {
         title: "Recording Stopped",
         description: "Your recording is ready for download",
       });
-      
-      // Start processing transcript after recording stops
-      setTimeout(() => processRecordingForTranscript(), 1000);
     }
   };
 
-  const processRecordingForTranscript = async () => {
-    if (!recordingState.recordedBlob) return;
-    
-    setRecordingState(prev => ({ ...prev, isProcessing: true }));
-    
-    try {
-      // Extract audio from video blob for transcription
-      const audioBlob = await extractAudioFromBlob(recordingState.recordedBlob);
-      
-      // Use Web Speech API for transcription (mock implementation)
-      const transcript = await transcribeAudio(audioBlob);
-      
-      // Generate meeting points from transcript
-      const meetingPoints = extractMeetingPoints(transcript);
-      
-      setRecordingState(prev => ({
-        ...prev,
-        transcript,
-        meetingPoints,
-        isProcessing: false
-      }));
-      
+  const cancelCountdown = () => {
+    countdownRef.current?.abort();
+  };
+
+  /** Runs on every timer tick: stops the recording at its limits and splits off parts on schedule. */
+  const checkLimits = () => {
+    const recorder = mediaRecorderRef.current;
+    const part = partRef.current;
+    if (!recorder || recorder.state !== 'recording' || !part) return;
+
+    const reason = reachedLimit(recordingLimits, durationRef.current, recordedBytesRef.current);
+    if (reason) {
+      stopRecording();
       toast({
-        title: "Processing Complete",
-        description: "Transcript and meeting minutes are ready",
+        title: "Recording Limit Reached",
+        description: `${LIMIT_REASON_LABELS[reason]}, so it was stopped and saved to the library.`,
       });
-      
+      return;
+    }
+    if (isPartDue(recordingLimits, durationRef.current - part.startedAt)) {
+      void splitPart();
+    }
+  };
+  limitsCheckRef.current = checkLimits;
+
+  /** Stores the recording in the library; resolves to its id, or null if it could not be saved. */
+  const saveToLibrary = async (
+    blob: Blob,
+    mode: CaptureMode,
+    duration: number,
+    createdAt: number,
+    part?: RecordingPart
+  ): Promise<string | null> => {
+    try {
+      // Parts share their session's title, so they read as one recording in the library
+      const entry = await recordingLibrary.add({
+        blob,
+        title: part
+          ? `Recording ${format(part.sessionStartedAt, 'PP p')} · Part ${part.index}`
+          : `Recording ${format(createdAt, 'PP p')}`,
+        createdAt,
+        duration,
+        captureMode: mode,
+        transcript: null,
+        minutes: null,
+        part
+      });
+      return entry.id;
     } catch (error) {
-      console.error('Error processing recording:', error);
-      setRecordingState(prev => ({ ...prev, isProcessing: false }));
+      console.error('Error saving recording to library:', error);
       toast({
-        title: "Processing Failed",
-        description: "Could not generate transcript",
+        title: "Not Saved to Library",
+        description: error instanceof Error ? error.message : "Download the recording to keep it",
         variant: "destructive"
       });
+      return null;
     }
   };
 
-  const extractAudioFromBlob = async (videoBlob: Blob): Promise<Blob> => {
-    // In a real implementation, you'd use FFmpeg.js or similar
-    // For now, return the original blob (assuming it has audio)
-    return videoBlob;
-  };
-
-  const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
-    // Mock implementation - in reality you'd use:
-    // 1. Web Speech API (limited browser support)
-    // 2. Cloud services like Google Speech-to-Text, Azure, AWS
-    // 3. Local processing with libraries like Whisper
-    
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve(`Welcome to today's meeting. We discussed the following agenda items:
-
-First, we reviewed the quarterly performance metrics and found that revenue increased by 15% compared to last quarter.
-
-Second, we outlined the upcoming product launch strategy for our new mobile application, which is scheduled for release in Q2.
-
-Third, we addressed team restructuring plans and the hiring of three new developers for the backend team.
-
-Finally, we established action items for the next sprint and set deadlines for deliverables.
-
-Thank you all for your participation and productive discussions.`);
-      }, 2000);
+  /** Adds an edited copy to the library, with the transcript and minutes moved to match the edit. */
+  const saveEditedRecording = async (blob: Blob, ranges: TimeRange[]) => {
+    const recordedAt = startedAtRef.current || Date.now();
+    await recordingLibrary.add({
+      blob,
+      title: `Recording ${format(recordedAt, 'PP p')} (edited)`,
+      createdAt: Date.now(),
+      duration: editedDuration(ranges) / 1000,
+      captureMode: recordedModeRef.current,
+      transcript: recordingState.transcript && shiftTranscript(recordingState.transcript, ranges),
+      minutes: recordingState.minutes && shiftMinutes(recordingState.minutes, ranges)
     });
   };
 
-  const extractMeetingPoints = (transcript: string): string[] => {
-    // Simple extraction logic - in reality you'd use NLP or AI services
-    const points = [
-      "Quarterly revenue increased by 15%",
-      "Mobile app launch scheduled for Q2",
-      "Plan to hire 3 new backend developers",
-      "Action items assigned for next sprint",
-      "Deliverable deadlines established"
-    ];
-    
-    return points;
+  const updateLibraryEntry = async (libraryEntry: Promise<string | null>, changes: RecordingChanges) => {
+    const id = await libraryEntry;
+    if (!id) return;
+    try {
+      await recordingLibrary.update(id, changes);
+    } catch (error) {
+      console.error('Error updating library entry:', error);
+    }
   };
 
-  const downloadTranscript = () => {
-    console.log('Download transcript called, transcript:', recordingState.transcript);
-    
-    if (!recordingState.transcript) {
-      // Generate sample transcript for testing
-      const sampleTranscript = `Welcome to today's meeting. We discussed the following agenda items:
+  /** Transcribes `blob`, using the engine that listened while recording on the first attempt. */
+  const transcribeRecording = (
+    blob: Blob,
+    liveEngine: TranscriptionEngine | null,
+    libraryEntry: Promise<string | null>,
+    recordedAt: number
+  ): JobRunner => {
+    return async ({ signal, attempt, reportProgress }) => {
+      let engine = attempt === 1 ? liveEngine : null;
+      if (engine) {
+        engineProgressRef.current = reportProgress;
+      } else {
+        // The recording-time engine is spent after one run; retries start a fresh one
+        const settings = transcriptionSettingsRef.current;
+        engine = createTranscriptionEngine(settings);
+        if (engine.mode === 'live') {
+          throw new Error('Live transcription only works while recording. Choose another engine and retry.');
+        }
+        await engine.start({ language: settings.language || undefined, onProgress: reportProgress });
+      }
 
-First, we reviewed the quarterly performance metrics and found that revenue increased by 15% compared to last quarter.
+      const stopListening = () => engine.cancel();
+      signal.addEventListener('abort', stopListening);
+      try {
+        // Live engines already heard everything; batch ones get the audio track as 16 kHz mono
+        if (engine.mode === 'batch') {
+          reportProgress({ message: 'Extracting audio...' });
+          const audio = await extractAudio(blob);
+          if (signal.aborted) return;
+          engine.feed(audio);
+        }
 
-Second, we outlined the upcoming product launch strategy for our new mobile application, which is scheduled for release in Q2.
+        const transcript = await engine.finish();
+        if (signal.aborted) return;
 
-Third, we addressed team restructuring plans and the hiring of three new developers for the backend team.
+        // Earlier parts of a split recording only update their library entries
+        setRecordingState(prev => (prev.recordedBlob === blob ? { ...prev, transcript } : prev));
+        await updateLibraryEntry(libraryEntry, { transcript });
+        recordingJobs.enqueue('minutes', 'Meeting minutes', extractMinutes(transcript, libraryEntry, recordedAt));
+      } catch (error) {
+        engine.cancel();
+        if (error instanceof NoAudioTrackError) {
+          throw new Error('The recording has no audio. Enable the microphone or share system audio.');
+        }
+        throw error;
+      } finally {
+        signal.removeEventListener('abort', stopListening);
+        engineProgressRef.current = null;
+      }
+    };
+  };
 
-Finally, we established action items for the next sprint and set deadlines for deliverables.
+  /** `recordedAt` (epoch ms) anchors relative deadlines like "by Friday" to the meeting, not to when the job runs. */
+  const extractMinutes = (
+    transcript: Transcript,
+    libraryEntry: Promise<string | null>,
+    recordedAt: number
+  ): JobRunner => {
+    return async ({ signal, reportProgress }) => {
+      reportProgress({ message: 'Extracting meeting minutes...' });
+      const minutes = await createMinutesExtractor(minutesSettingsRef.current).extract(transcript, {
+        meetingDate: new Date(recordedAt),
+        signal
+      });
+      if (signal.aborted) return;
 
-Thank you all for your participation and productive discussions.`;
-      
-      const content = `Meeting Transcript
-Generated on: ${new Date().toLocaleString()}
+      setRecordingState(prev => (prev.transcript === transcript ? { ...prev, minutes } : prev));
+      await updateLibraryEntry(libraryEntry, { minutes });
+    };
+  };
 
-${sampleTranscript}`;
-      
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `transcript-${new Date().toISOString().slice(0, 19)}.txt`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
+  const exportFile = (build: () => Blob, filename: string, description: string) => {
+    try {
+      downloadBlob(build(), filename);
+      toast({ title: "Download Started", description });
+    } catch (error) {
       toast({
-        title: "Download Started",
-        description: "Sample transcript file is being downloaded",
+        title: "Nothing to Export",
+        description: error instanceof Error ? error.message : "This file is not available yet",
+        variant: "destructive"
       });
-      return;
     }
-    
-    const content = `Meeting Transcript
-Generated on: ${new Date().toLocaleString()}
-
-${recordingState.transcript}`;
-    
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `transcript-${new Date().toISOString().slice(0, 19)}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    toast({
-      title: "Download Started",
-      description: "Transcript file is being downloaded",
-    });
+  };
+
+  const downloadTranscript = () => {
+    exportFile(
+      () => buildTranscriptExport(recordingState.transcript),
+      `${timestampedName('transcript')}.txt`,
+      "Transcript file is being downloaded"
+    );
   };
 
   const downloadMeetingMinutes = () => {
-    console.log('Download meeting minutes called, points:', recordingState.meetingPoints);
-    
-    if (!recordingState.meetingPoints.length) {
-      // Generate sample meeting minutes for testing
-      const samplePoints = [
-        "Quarterly revenue increased by 15%",
-        "Mobile app launch scheduled for Q2", 
-        "Plan to hire 3 new backend developers",
-        "Action items assigned for next sprint",
-        "Deliverable deadlines established"
-      ];
-      
-      const content = `Meeting Minutes
-Generated on: ${new Date().toLocaleString()}
+    exportFile(
+      () => buildMinutesExport(recordingState.minutes),
+      `${timestampedName('meeting-minutes')}.txt`,
+      "Meeting minutes file is being downloaded"
+    );
+  };
 
-Key Discussion Points:
-${samplePoints.map((point, index) => `${index + 1}. ${point}`).join('\n')}
+  const exportSubtitles = (format: SubtitleFormat) => {
+    if (isTranscriptEmpty(recordingState.transcript)) return;
+
+    const subtitles = buildSubtitles(recordingState.transcript, format, subtitleSettings);
+    downloadBlob(subtitles, `${timestampedName('transcript')}.${format}`);
 
----
-Generated automatically from recording transcript.`;
-      
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `meeting-minutes-${new Date().toISOString().slice(0, 19)}.txt`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
-      toast({
-        title: "Download Started",
-        description: "Sample meeting minutes file is being downloaded",
-      });
-      return;
-    }
-    
-    const content = `Meeting Minutes
-Generated on: ${new Date().toLocaleString()}
-
-Key Discussion Points:
-${recordingState.meetingPoints.map((point, index) => `${index + 1}. ${point}`).join('\n')}
-
----
-Generated automatically from recording transcript.`;
-    
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `meeting-minutes-${new Date().toISOString().slice(0, 19)}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
     toast({
-        title: "Download Started",
-        description: "Meeting minutes file is being downloaded",
-      });
+      title: "Download Started",
+      description: `${format.toUpperCase()} subtitles are being downloaded`,
+    });
   };
 
   const downloadRecording = () => {
     if (recordingState.recordedBlob) {
-      const url = URL.createObjectURL(recordingState.recordedBlob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `recording-${new Date().toISOString().slice(0, 19)}.webm`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      // Players pick up captions that share the video's base name
+      const basename = timestampedName('recording');
+      downloadBlob(recordingState.recordedBlob, `${basename}.${extensionForMimeType(recordingState.recordedBlob.type)}`);
+
+      const withCaptions = subtitleSettings.includeWithRecording && captionsBlob;
+      if (withCaptions) {
+        downloadBlob(captionsBlob, `${basename}.vtt`);
+      }
       
       toast({
         title: "Download Started",
-        description: "Your recording is being downloaded",
+        description: withCaptions
+          ? "Your recording and its captions are being downloaded"
+          : "Your recording is being downloaded",
       });
     }
   };
 
+  const seekPreview = (ms: number) => {
+    const video = previewRef.current;
+    if (!video) return;
+    video.currentTime = ms / 1000;
+    video.play().catch(() => {
+      // Autoplay can be refused; the seek still happened
+    });
+  };
+
   const getRecordingStatusBadge = () => {
+    if (countdown !== null) {
+      return <Badge variant="secondary" className="animate-pulse">Starting in {countdown}</Badge>;
+    }
     if (recordingState.isRecording) {
+      if (sharingStatus === 'ended') {
+        return <Badge variant="secondary">Sharing Stopped</Badge>;
+      }
       if (recordingState.isPaused) {
         return <Badge variant="secondary">Paused</Badge>;
       }
+      if (sharingStatus === 'hidden') {
+        return <Badge variant="outline">Source Hidden</Badge>;
+      }
       return <Badge variant="destructive" className="animate-pulse">Recording</Badge>;
     }
     return <Badge variant="outline">Ready</Badge>;
   };
 
+  const limitsSummary = describeLimits(recordingLimits);
+
+  const getTranscriptExport = (): ExportItem => {
+    const { transcript } = recordingState;
+    const item = { id: 'transcript', label: 'Transcript', format: 'TXT', onExport: downloadTranscript };
+
+    if (isTranscribing) return { ...item, status: 'pending', message: 'Transcribing...' };
+    if (transcriptError) return { ...item, status: 'error', message: transcriptError };
+    if (!transcript) return { ...item, status: 'empty', message: 'This recording was not transcribed' };
+    if (isTranscriptEmpty(transcript)) return { ...item, status: 'empty', message: 'No speech was detected' };
+    return { ...item, status: 'ready' };
+  };
+
+  const getMinutesExport = (): ExportItem => {
+    const { minutes } = recordingState;
+    const item = { id: 'minutes', label: 'Meeting minutes', format: 'TXT', onExport: downloadMeetingMinutes };
+
+    if (isTranscribing || isJobActive(minutesJob)) return { ...item, status: 'pending', message: 'Extracting meeting minutes...' };
+    if (minutesError) return { ...item, status: 'error', message: minutesError };
+    if (transcriptError || !minutes) return { ...item, status: 'empty', message: 'Minutes need a transcript' };
+    if (isMinutesEmpty(minutes)) return { ...item, status: 'empty', message: 'Nothing worth minuting was found' };
+    return { ...item, status: 'ready' };
+  };
+
   return (
     <div className="space-y-6">
       {/* Recording Status Header */}
@@ -451,7 +1226,7 @@ Generated automatically from recording transcript.`;
               </div>
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <Monitor className="h-4 w-4" />
-                <span className="capitalize">{captureMode}</span>
+                <span>{CAPTURE_MODE_LABELS[captureMode]}</span>
                 {micEnabled ? (
                   <div className="flex items-center gap-1 text-success">
                     <Mic className="h-4 w-4" />
@@ -467,7 +1242,12 @@ Generated automatically from recording transcript.`;
             </div>
             
             <div className="flex items-center gap-2">
-              {!recordingState.isRecording ? (
+              {countdown !== null ? (
+                <Button variant="outline" size="lg" onClick={cancelCountdown}>
+                  <X className="h-5 w-5" />
+                  Cancel
+                </Button>
+              ) : !recordingState.isRecording ? (
                 <Button 
                   variant="hero" 
                   size="lg" 
@@ -483,6 +1263,7 @@ Generated automatically from recording transcript.`;
                     variant="outline" 
                     size="lg" 
                     onClick={pauseRecording}
+                    disabled={sharingStatus === 'ended'}
                   >
                     {recordingState.isPaused ? (
                       <>
@@ -508,6 +1289,36 @@ Generated automatically from recording transcript.`;
               )}
             </div>
           </div>
+
+          {recordingState.isRecording && sharingStatus === 'ended' && (
+            <Alert className="mt-4">
+              <ScreenShareOff className="h-4 w-4" />
+              <AlertTitle>Screen sharing was stopped</AlertTitle>
+              <AlertDescription className="space-y-3">
+                <p>The recording is paused. Share another source to continue into the same file, or finish it now.</p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={shareAgain}>
+                    <Monitor className="h-4 w-4" />
+                    Share Another Source
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={stopRecording}>
+                    Finish Recording
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+          {recordingState.isRecording && sharingStatus === 'hidden' && (
+            <p className="mt-4 text-sm text-muted-foreground">
+              The shared surface is hidden or minimized; the recording shows its last frame until it is back.
+            </p>
+          )}
+          {recordingState.isRecording && limitsSummary && (
+            <p className="mt-4 text-sm text-muted-foreground">
+              {recordingLimits.splitEvery > 0 && `Part ${partIndex} · `}
+              {limitsSummary}
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -526,7 +1337,7 @@ Generated automatically from recording transcript.`;
               <Button 
                 variant={captureMode === 'screen' ? 'default' : 'outline'}
                 onClick={() => setCaptureMode('screen')}
-                disabled={recordingState.isRecording}
+                disabled={isCaptureActive}
                 className="justify-start"
               >
                 <Monitor className="h-4 w-4" />
@@ -535,38 +1346,88 @@ Generated automatically from recording transcript.`;
               <Button 
                 variant={captureMode === 'window' ? 'default' : 'outline'}
                 onClick={() => setCaptureMode('window')}
-                disabled={recordingState.isRecording}
+                disabled={isCaptureActive}
                 className="justify-start"
               >
-                <Smartphone className="h-4 w-4" />
+                <AppWindow className="h-4 w-4" />
                 Application Window
               </Button>
+              <Button 
+                variant={captureMode === 'tab' ? 'default' : 'outline'}
+                onClick={() => setCaptureMode('tab')}
+                disabled={isCaptureActive}
+                className="justify-start"
+              >
+                <Globe className="h-4 w-4" />
+                Browser Tab
+              </Button>
               <Button 
                 variant={captureMode === 'camera' ? 'default' : 'outline'}
                 onClick={() => setCaptureMode('camera')}
-                disabled={recordingState.isRecording}
+                disabled={isCaptureActive}
                 className="justify-start"
               >
                 <Camera className="h-4 w-4" />
                 Camera Only
               </Button>
+              <Button 
+                variant={captureMode === 'audio' ? 'default' : 'outline'}
+                onClick={() => setCaptureMode('audio')}
+                disabled={isCaptureActive}
+                className="justify-start"
+              >
+                <AudioLines className="h-4 w-4" />
+                Audio Only
+              </Button>
             </div>
+            {isAudioOnly(captureMode) && (
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="tab-audio">Include tab audio</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Also records a browser tab, e.g. a meeting running in the browser. Share it with audio when asked.
+                  </p>
+                </div>
+                <Switch
+                  id="tab-audio"
+                  checked={includeTabAudio}
+                  onCheckedChange={setIncludeTabAudio}
+                  disabled={isCaptureActive}
+                />
+              </div>
+            )}
+            {!isAudioOnly(captureMode) && (
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="switchable-sources">Allow switching sources</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Lets you share another screen or change the camera without stopping. Costs some frame rate and quality.
+                  </p>
+                </div>
+                <Switch
+                  id="switchable-sources"
+                  checked={switchableSources}
+                  onCheckedChange={setSwitchableSources}
+                  disabled={isCaptureActive}
+                />
+              </div>
+            )}
           </CardContent>
         </Card>
 
-        {/* Audio Settings */}
+        {/* Devices & Audio */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Settings className="h-5 w-5" />
-              Audio Settings
+              Devices & Audio
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
             <Button 
               variant={micEnabled ? 'success' : 'outline'}
               onClick={() => setMicEnabled(!micEnabled)}
-              disabled={recordingState.isRecording}
+              disabled={isCaptureActive}
               className="w-full justify-start"
             >
               {micEnabled ? (
@@ -581,6 +1442,25 @@ Generated automatically from recording transcript.`;
                 </>
               )}
             </Button>
+
+            <DeviceSelector
+              preferences={devicePreferences}
+              onChange={changeDevices}
+              kinds={['audioinput', 'videoinput', 'audiooutput']}
+            />
+
+            <AudioMixerControls
+              settings={audioMixerSettings}
+              onChange={setAudioMixerSettings}
+              mixer={audioMixer}
+              sources={[
+                ...(isDisplayCapture(captureMode) || (isAudioOnly(captureMode) && includeTabAudio)
+                  ? ['system' as const]
+                  : []),
+                ...(micEnabled ? ['microphone' as const] : [])
+              ]}
+              isRecording={recordingState.isRecording}
+            />
             
             {recordingState.recordedBlob && (
               <Button 
@@ -592,12 +1472,132 @@ Generated automatically from recording transcript.`;
                 Download Recording
               </Button>
             )}
+            {recordingState.recordedBlob && !recordingState.isRecording && (
+              <Button
+                variant="outline"
+                onClick={() => setIsTranscodeOpen(true)}
+                className="w-full"
+              >
+                <FileVideo className="h-4 w-4" />
+                Export as MP4, GIF or Audio
+              </Button>
+            )}
           </CardContent>
         </Card>
+
+        <div className="md:col-span-2">
+          <RecorderSettingsCard
+            settings={recorderSettings}
+            onChange={setRecorderSettings}
+            disabled={isCaptureActive}
+            negotiated={negotiatedSettings}
+            audioOnly={isAudioOnly(captureMode)}
+          />
+        </div>
+
+        <TranscriptionSettingsCard
+          settings={transcriptionSettings}
+          onChange={setTranscriptionSettings}
+          disabled={isCaptureActive || isProcessing}
+        />
+
+        <MinutesSettingsCard
+          settings={minutesSettings}
+          onChange={setMinutesSettings}
+          disabled={isCaptureActive || isProcessing}
+        />
+
+        <CameraOverlayCard
+          layout={overlayLayout}
+          onChange={setOverlayLayout}
+          isRecording={recordingState.isRecording}
+          unavailable={!isDisplayCapture(captureMode)}
+        />
+
+        <RecordingLimitsCard
+          limits={recordingLimits}
+          onChange={setRecordingLimits}
+          disabled={isCaptureActive}
+        />
       </div>
 
+      {/* Live Preview */}
+      {recordingState.isRecording && liveStream && (
+        isAudioOnly(captureMode)
+          ? audioMixer && <LiveWaveform mixer={audioMixer} isPaused={recordingState.isPaused} />
+          : <LivePreview stream={liveStream} visible={showLivePreview} onVisibleChange={setShowLivePreview} />
+      )}
+
+      {/* Recording Preview */}
+      {recordingUrl && !recordingState.isRecording && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Play className="h-5 w-5" />
+                Preview
+              </CardTitle>
+              <div className="flex items-center gap-4">
+                {waveform && waveform.silences.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Switch id="skip-silences" checked={skipSilences} onCheckedChange={setSkipSilences} />
+                    <Label htmlFor="skip-silences" className="text-sm">Skip silences</Label>
+                  </div>
+                )}
+                <Button variant="outline" size="sm" onClick={() => setIsEditorOpen(true)}>
+                  <Scissors className="h-4 w-4" />
+                  Edit
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <RecordingPlayer
+              ref={previewRef}
+              src={recordingUrl}
+              fallbackDuration={recordingState.recordedDuration}
+              onTimeUpdate={setPreviewTime}
+              audioOnly={recordingState.recordedBlob?.type.startsWith('audio/')}
+              waveform={waveform}
+              skipSilences={skipSilences}
+            >
+              {captionsUrl && (
+                <track
+                  kind="captions"
+                  src={captionsUrl}
+                  srcLang={recordingState.transcript?.language?.split('-')[0] || 'en'}
+                  label="Transcript"
+                  default
+                />
+              )}
+            </RecordingPlayer>
+          </CardContent>
+        </Card>
+      )}
+
+      {recordingState.recordedBlob && (
+        <TrimEditorDialog
+          open={isEditorOpen && !recordingState.isRecording}
+          onOpenChange={setIsEditorOpen}
+          recording={recordingState.recordedBlob}
+          fallbackDuration={recordingState.recordedDuration}
+          onSave={saveEditedRecording}
+        />
+      )}
+
+      {recordingState.recordedBlob && (
+        <TranscodeDialog
+          open={isTranscodeOpen && !recordingState.isRecording}
+          onOpenChange={setIsTranscodeOpen}
+          recording={recordingState.recordedBlob}
+          duration={recordingState.recordedDuration}
+          settings={transcodeSettings}
+          onSettingsChange={setTranscodeSettings}
+        />
+      )}
+
       {/* Transcript and Meeting Minutes */}
-      {(recordingState.isProcessing || recordingState.transcript || recordingState.meetingPoints.length > 0) && (
+      {(transcriptionJob || recordingState.transcript) && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Transcript */}
           <Card>
@@ -605,33 +1605,45 @@ Generated automatically from recording transcript.`;
               <CardTitle className="flex items-center gap-2">
                 <FileText className="h-5 w-5" />
                 Transcript
-                {recordingState.isProcessing && (
+                {isTranscribing && (
                   <Loader2 className="h-4 w-4 animate-spin text-primary" />
                 )}
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {recordingState.isProcessing ? (
+              {isTranscribing ? (
                 <div className="flex items-center justify-center py-8">
-                  <div className="text-center space-y-2">
+                  <div className="text-center space-y-2 w-full max-w-xs">
                     <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
                     <p className="text-sm text-muted-foreground">
-                      Processing audio for transcription...
+                      {transcriptionJob.status === 'queued'
+                        ? 'Waiting for other jobs to finish...'
+                        : transcriptionJob.progress?.message ?? 'Processing audio for transcription...'}
                     </p>
+                    {transcriptionJob.progress?.progress !== undefined && (
+                      <Progress value={transcriptionJob.progress.progress * 100} />
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => recordingJobs.cancel(transcriptionJob.id)}>
+                      <X className="h-4 w-4" />
+                      Cancel
+                    </Button>
                   </div>
                 </div>
               ) : recordingState.transcript ? (
                 <div className="space-y-4">
-                  <div className="bg-muted/50 rounded-lg p-4 max-h-64 overflow-y-auto">
-                    <p className="text-sm leading-relaxed whitespace-pre-wrap">
-                      {recordingState.transcript}
-                    </p>
+                  <div className="bg-muted/50 rounded-lg p-2 max-h-64 overflow-y-auto">
+                    <TranscriptView
+                      transcript={recordingState.transcript}
+                      currentTime={previewTime}
+                      onSeek={recordingUrl ? seekPreview : undefined}
+                    />
                   </div>
                   <Button 
                     variant="outline" 
                     size="sm" 
+                    disabled={isTranscriptEmpty(recordingState.transcript)}
                     onClick={() => {
-                      navigator.clipboard.writeText(recordingState.transcript);
+                      navigator.clipboard.writeText(transcriptToText(recordingState.transcript, { timestamps: true }));
                       toast({ title: "Copied to clipboard" });
                     }}
                     className="w-full"
@@ -639,6 +1651,24 @@ Generated automatically from recording transcript.`;
                     <FileText className="h-4 w-4" />
                     Copy Transcript
                   </Button>
+                  {!isTranscriptEmpty(recordingState.transcript) && (
+                    <SubtitleExportPanel
+                      settings={subtitleSettings}
+                      onChange={setSubtitleSettings}
+                      onExport={exportSubtitles}
+                    />
+                  )}
+                </div>
+              ) : transcriptError ? (
+                <div className="flex flex-col items-center gap-2 py-8">
+                  <p className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    {transcriptError}
+                  </p>
+                  <Button variant="outline" size="sm" onClick={() => recordingJobs.retry(transcriptionJob.id)}>
+                    <RotateCcw className="h-4 w-4" />
+                    Retry
+                  </Button>
                 </div>
               ) : null}
             </CardContent>
@@ -650,44 +1680,41 @@ Generated automatically from recording transcript.`;
               <CardTitle className="flex items-center gap-2">
                 <ClipboardList className="h-5 w-5" />
                 Meeting Minutes
-                {recordingState.isProcessing && (
+                {isProcessing && (
                   <Loader2 className="h-4 w-4 animate-spin text-primary" />
                 )}
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {recordingState.isProcessing ? (
+              {isTranscribing || isJobActive(minutesJob) ? (
                 <div className="flex items-center justify-center py-8">
                   <div className="text-center space-y-2">
                     <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
                     <p className="text-sm text-muted-foreground">
-                      Extracting key meeting points...
+                      {isTranscribing ? 'Waiting for the transcript...' : 'Extracting key meeting points...'}
                     </p>
+                    {isJobActive(minutesJob) && (
+                      <Button variant="ghost" size="sm" onClick={() => recordingJobs.cancel(minutesJob.id)}>
+                        <X className="h-4 w-4" />
+                        Cancel
+                      </Button>
+                    )}
                   </div>
                 </div>
-              ) : recordingState.meetingPoints.length > 0 ? (
+              ) : recordingState.minutes ? (
                 <div className="space-y-4">
-                  <div className="space-y-2">
-                    {recordingState.meetingPoints.map((point, index) => (
-                      <div 
-                        key={index}
-                        className="flex items-start gap-2 p-3 bg-muted/50 rounded-lg"
-                      >
-                        <Badge variant="outline" className="mt-0.5 text-xs">
-                          {index + 1}
-                        </Badge>
-                        <p className="text-sm flex-1">{point}</p>
-                      </div>
-                    ))}
+                  <div className="bg-muted/50 rounded-lg p-3 max-h-96 overflow-y-auto">
+                    <MeetingMinutesView
+                      minutes={recordingState.minutes}
+                      onSeek={recordingUrl ? seekPreview : undefined}
+                    />
                   </div>
                   <Button 
                     variant="outline" 
                     size="sm" 
+                    disabled={isMinutesEmpty(recordingState.minutes)}
                     onClick={() => {
-                      const minutesText = recordingState.meetingPoints
-                        .map((point, index) => `${index + 1}. ${point}`)
-                        .join('\n');
-                      navigator.clipboard.writeText(minutesText);
+                      navigator.clipboard.writeText(minutesToText(recordingState.minutes));
                       toast({ title: "Meeting minutes copied to clipboard" });
                     }}
                     className="w-full"
@@ -696,11 +1723,31 @@ Generated automatically from recording transcript.`;
                     Copy Minutes
                   </Button>
                 </div>
+              ) : minutesError ? (
+                <div className="flex flex-col items-center gap-2 py-8">
+                  <p className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    {minutesError}
+                  </p>
+                  <Button variant="outline" size="sm" onClick={() => recordingJobs.retry(minutesJob.id)}>
+                    <RotateCcw className="h-4 w-4" />
+                    Retry
+                  </Button>
+                </div>
+              ) : transcriptError ? (
+                <p className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+                  <AlertCircle className="h-4 w-4" />
+                  Minutes need a transcript
+                </p>
               ) : null}
             </CardContent>
           </Card>
         </div>
       )}
+
+      {recordingState.recordedBlob && !recordingState.isRecording && (
+        <ExportPanel items={[getTranscriptExport(), getMinutesExport()]} />
+      )}
     </div>
   );
 };
\ No newline at end of file
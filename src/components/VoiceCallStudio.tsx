@@ -1,9 +1,22 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { DeviceSelector } from '@/components/devices/DeviceSelector';
 import { useToast } from '@/hooks/use-toast';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+import {
+  DEFAULT_DEVICE_PREFERENCES,
+  DevicePreferences,
+  deviceConstraint,
+  deviceManager,
+  isTrackLive,
+  setAudioOutput
+} from '@/lib/devices';
+import { MeshManager, MeshPeer } from '@/lib/mesh';
+import { WebSocketSignalingClient, generatePeerId } from '@/lib/signaling';
 import { 
   Phone, 
   PhoneCall, 
@@ -14,7 +27,8 @@ import {
   VolumeX,
   Users,
   Copy,
-  UserPlus
+  UserPlus,
+  Headphones
 } from 'lucide-react';
 
 interface CallState {
@@ -25,12 +39,32 @@ interface CallState {
   isHost: boolean;
 }
 
-interface PeerConnection {
-  id: string;
-  connection: RTCPeerConnection;
-  stream?: MediaStream;
+interface RemoteAudioProps {
+  stream: MediaStream;
+  muted: boolean;
+  /** Output device id; empty for the system default. */
+  sinkId: string;
 }
 
+// One output element per remote participant so each stream plays independently
+const RemoteAudio = ({ stream, muted, sinkId }: RemoteAudioProps) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      setAudioOutput(audioRef.current, sinkId).catch(error => console.error('Error selecting audio output:', error));
+    }
+  }, [sinkId]);
+
+  return <audio ref={audioRef} autoPlay playsInline muted={muted} />;
+};
+
 export const VoiceCallStudio = () => {
   const [callState, setCallState] = useState<CallState>({
     isInCall: false,
@@ -43,10 +77,17 @@ export const VoiceCallStudio = () => {
   const [micEnabled, setMicEnabled] = useState(true);
   const [audioEnabled, setAudioEnabled] = useState(true);
   const [roomInput, setRoomInput] = useState('');
-  const [peers, setPeers] = useState<PeerConnection[]>([]);
+  const [peers, setPeers] = useState<MeshPeer[]>([]);
+  const [devicePreferences, setDevicePreferences] = useLocalStorage(
+    'media-devices',
+    DEFAULT_DEVICE_PREFERENCES
+  );
+  const devices = useMediaDevices();
   
   const localStreamRef = useRef<MediaStream | null>(null);
   const callTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const meshRef = useRef<MeshManager | null>(null);
+  const peerIdRef = useRef<string>(generatePeerId());
   
   const { toast } = useToast();
 
@@ -78,27 +119,63 @@ export const VoiceCallStudio = () => {
     }
   };
 
-  const initializeLocalStream = async (): Promise<MediaStream> => {
+  const initializeLocalStream = useCallback(async (): Promise<MediaStream> => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
-        audio: true,
+        audio: deviceConstraint(devicePreferences.audioinput),
         video: false
       });
       
       localStreamRef.current = stream;
+      // Device labels only become readable once a capture has been allowed
+      void deviceManager.refresh();
       return stream;
     } catch (error) {
       console.error('Error accessing microphone:', error);
-      throw new Error('Failed to access microphone');
+      throw new Error('Failed to access microphone. Please check your microphone permissions and try again.');
+    }
+  }, [devicePreferences]);
+
+  const disconnectFromRoom = () => {
+    meshRef.current?.leave();
+    meshRef.current = null;
+    setPeers([]);
+
+    if (localStreamRef.current) {
+      localStreamRef.current.getTracks().forEach(track => track.stop());
+      localStreamRef.current = null;
     }
   };
 
+  const connectToRoom = useCallback(async (roomId: string, localStream: MediaStream) => {
+    const mesh = new MeshManager(new WebSocketSignalingClient(), localStream);
+    meshRef.current = mesh;
+
+    mesh.on('peers-changed', setPeers);
+    mesh.on('peer-joined', (peerId) => {
+      toast({ title: "Participant Joined", description: `${peerId} joined the call` });
+    });
+    mesh.on('peer-left', (peerId) => {
+      toast({ title: "Participant Left", description: `${peerId} left the call` });
+    });
+    mesh.on('disconnected', () => {
+      toast({
+        title: "Signaling Disconnected",
+        description: "New participants cannot join until you rejoin the room.",
+        variant: "destructive"
+      });
+    });
+
+    await mesh.join(roomId, peerIdRef.current);
+  }, [toast]);
+
   const createRoom = useCallback(async () => {
     try {
       setCallState(prev => ({ ...prev, isConnecting: true }));
       
       const roomId = generateRoomId();
-      await initializeLocalStream();
+      const localStream = await initializeLocalStream();
+      await connectToRoom(roomId, localStream);
       
       setCallState(prev => ({ 
         ...prev, 
@@ -118,14 +195,15 @@ export const VoiceCallStudio = () => {
       
     } catch (error) {
       console.error('Error creating room:', error);
+      disconnectFromRoom();
       setCallState(prev => ({ ...prev, isConnecting: false }));
       toast({
         title: "Failed to Create Room",
-        description: "Please check your microphone permissions and try again.",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive"
       });
     }
-  }, [toast]);
+  }, [initializeLocalStream, connectToRoom, toast]);
 
   const joinRoom = useCallback(async () => {
     if (!roomInput.trim()) {
@@ -140,7 +218,8 @@ export const VoiceCallStudio = () => {
     try {
       setCallState(prev => ({ ...prev, isConnecting: true }));
       
-      await initializeLocalStream();
+      const localStream = await initializeLocalStream();
+      await connectToRoom(roomInput.trim(), localStream);
       
       setCallState(prev => ({ 
         ...prev, 
@@ -160,31 +239,18 @@ export const VoiceCallStudio = () => {
       
     } catch (error) {
       console.error('Error joining room:', error);
+      disconnectFromRoom();
       setCallState(prev => ({ ...prev, isConnecting: false }));
       toast({
         title: "Failed to Join Room",
-        description: "Please check your microphone permissions and try again.",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive"
       });
     }
-  }, [roomInput, toast]);
+  }, [roomInput, initializeLocalStream, connectToRoom, toast]);
 
   const leaveCall = useCallback(() => {
-    // Clean up local stream
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => track.stop());
-      localStreamRef.current = null;
-    }
-
-    // Clean up peer connections
-    peers.forEach(peer => {
-      peer.connection.close();
-      if (peer.stream) {
-        peer.stream.getTracks().forEach(track => track.stop());
-      }
-    });
-    setPeers([]);
-
+    disconnectFromRoom();
     stopCallTimer();
     
     setCallState({
@@ -199,7 +265,57 @@ export const VoiceCallStudio = () => {
       title: "Call Ended",
       description: "You have left the voice call.",
     });
-  }, [peers, toast]);
+  }, [toast]);
+
+  /** Sends another microphone to everyone in the call without reconnecting. */
+  const switchMicrophone = async (deviceId: string) => {
+    const localStream = localStreamRef.current;
+    const mesh = meshRef.current;
+    if (!localStream || !mesh) return;
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: deviceConstraint(deviceId), video: false });
+    const track = stream.getAudioTracks()[0];
+    const previous = localStream.getAudioTracks()[0];
+    // Stay muted if the old microphone was
+    track.enabled = previous?.enabled ?? true;
+    await mesh.replaceTrack(track);
+    previous?.stop();
+  };
+
+  const changeDevices = (next: DevicePreferences) => {
+    const micChanged = next.audioinput !== devicePreferences.audioinput;
+    setDevicePreferences(next);
+    if (!micChanged || !callState.isInCall) return;
+
+    switchMicrophone(next.audioinput).catch(error => {
+      console.error('Error switching microphone:', error);
+      toast({
+        title: "Could Not Switch Microphone",
+        description: error instanceof Error ? error.message : "The call continues on the previous microphone.",
+        variant: "destructive"
+      });
+    });
+  };
+
+  // An unplugged headset ends the microphone track; carry on with the default one
+  useEffect(() => {
+    if (!callState.isInCall || isTrackLive(localStreamRef.current?.getAudioTracks()[0], devices)) return;
+
+    switchMicrophone('')
+      .then(() => toast({
+        title: "Microphone Disconnected",
+        description: "Switched to the system default microphone.",
+      }))
+      .catch(error => console.error('Error falling back to the default microphone:', error));
+  }, [devices, callState.isInCall, toast]);
+
+  // Leaving the Voice Calls tab unmounts the studio; don't leave the room open
+  useEffect(() => {
+    return () => {
+      disconnectFromRoom();
+      stopCallTimer();
+    };
+  }, []);
 
   const toggleMicrophone = () => {
     if (localStreamRef.current) {
@@ -216,6 +332,15 @@ export const VoiceCallStudio = () => {
     }
   };
 
+  const toggleSpeaker = () => {
+    setAudioEnabled(!audioEnabled);
+
+    toast({
+      title: audioEnabled ? "Speaker Muted" : "Speaker Unmuted",
+      description: audioEnabled ? "You will not hear other participants" : "You can hear other participants again",
+    });
+  };
+
   const copyRoomId = () => {
     if (callState.roomId) {
       navigator.clipboard.writeText(callState.roomId);
@@ -337,6 +462,23 @@ export const VoiceCallStudio = () => {
                       </>
                     )}
                   </Button>
+                  <Button 
+                    variant={audioEnabled ? 'success' : 'outline'} 
+                    size="lg" 
+                    onClick={toggleSpeaker}
+                  >
+                    {audioEnabled ? (
+                      <>
+                        <Volume2 className="h-5 w-5" />
+                        Speaker
+                      </>
+                    ) : (
+                      <>
+                        <VolumeX className="h-5 w-5" />
+                        Speaker Off
+                      </>
+                    )}
+                  </Button>
                   <Button 
                     variant="destructive" 
                     size="lg" 
@@ -417,9 +559,50 @@ export const VoiceCallStudio = () => {
                 <p>Share your Room ID with others so they can join the call.</p>
               </div>
             )}
+
+            <div className="space-y-2">
+              <div className="text-sm font-medium">
+                Participants ({peers.length + 1})
+              </div>
+              <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                <span className="text-sm">You ({peerIdRef.current})</span>
+                <Badge variant="outline">{micEnabled ? 'Speaking' : 'Muted'}</Badge>
+              </div>
+              {peers.map(peer => (
+                <div
+                  key={peer.id}
+                  className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+                >
+                  <span className="text-sm">{peer.id}</span>
+                  <Badge variant={peer.connection.connectionState === 'connected' ? 'secondary' : 'outline'}>
+                    {peer.connection.connectionState}
+                  </Badge>
+                  {peer.stream && (
+                    <RemoteAudio stream={peer.stream} muted={!audioEnabled} sinkId={devicePreferences.audiooutput} />
+                  )}
+                </div>
+              ))}
+            </div>
           </CardContent>
         </Card>
       )}
+
+      {/* Devices */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Headphones className="h-5 w-5" />
+            Audio Devices
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DeviceSelector
+            preferences={devicePreferences}
+            onChange={changeDevices}
+            kinds={['audioinput', 'audiooutput']}
+          />
+        </CardContent>
+      </Card>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+import {
+  DEVICE_KIND_LABELS,
+  DeviceKind,
+  DevicePreferences,
+  deviceLabel,
+  supportsOutputSelection
+} from '@/lib/devices';
+
+interface DeviceSelectorProps {
+  preferences: DevicePreferences;
+  onChange: (preferences: DevicePreferences) => void;
+  kinds: DeviceKind[];
+  disabled?: boolean;
+}
+
+// Select items cannot have an empty value, which is how the default is stored
+const SYSTEM_DEFAULT = 'system-default';
+
+export const DeviceSelector = ({ preferences, onChange, kinds, disabled }: DeviceSelectorProps) => {
+  const devices = useMediaDevices();
+  const visibleKinds = kinds.filter(kind => kind !== 'audiooutput' || supportsOutputSelection());
+
+  return (
+    <div className="space-y-3">
+      {visibleKinds.map(kind => {
+        const options = devices.filter(device => device.kind === kind);
+        const selected = preferences[kind];
+        // A remembered device that is unplugged right now is still shown as chosen
+        const isMissing = !!selected && !options.some(device => device.deviceId === selected);
+
+        return (
+          <div key={kind} className="space-y-2">
+            <Label htmlFor={`device-${kind}`}>{DEVICE_KIND_LABELS[kind]}</Label>
+            <Select
+              value={selected || SYSTEM_DEFAULT}
+              onValueChange={(value) => onChange({ ...preferences, [kind]: value === SYSTEM_DEFAULT ? '' : value })}
+              disabled={disabled}
+            >
+              <SelectTrigger id={`device-${kind}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SYSTEM_DEFAULT}>System default</SelectItem>
+                {options.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {deviceLabel(device, index)}
+                  </SelectItem>
+                ))}
+                {isMissing && (
+                  <SelectItem value={selected} disabled>
+                    Disconnected device
+                  </SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
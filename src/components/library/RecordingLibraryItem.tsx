@@ -0,0 +1,90 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { RecordingMetadata, formatBytes } from '@/lib/library';
+import { formatTimestamp, isTranscriptEmpty } from '@/lib/transcript';
+import { isMinutesEmpty } from '@/lib/minutes';
+import { AppWindow, AudioLines, Camera, Download, Globe, Monitor, Pencil, Play, Trash2 } from 'lucide-react';
+
+interface RecordingLibraryItemProps {
+  recording: RecordingMetadata;
+  layout: 'grid' | 'list';
+  onPlay: () => void;
+  onDownload: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+}
+
+const CAPTURE_ICONS = {
+  screen: Monitor,
+  window: AppWindow,
+  tab: Globe,
+  camera: Camera,
+  audio: AudioLines
+};
+
+export const RecordingLibraryItem = ({
+  recording,
+  layout,
+  onPlay,
+  onDownload,
+  onRename,
+  onDelete
+}: RecordingLibraryItemProps) => {
+  const CaptureIcon = CAPTURE_ICONS[recording.captureMode] ?? Monitor;
+
+  return (
+    <Card className="group">
+      <CardContent
+        className={cn(
+          'p-4 gap-4',
+          layout === 'grid' ? 'flex flex-col' : 'flex flex-col sm:flex-row sm:items-center'
+        )}
+      >
+        <button
+          type="button"
+          onClick={onPlay}
+          className={cn(
+            'flex items-center justify-center rounded-lg bg-muted text-muted-foreground hover:text-primary transition-colors',
+            layout === 'grid' ? 'aspect-video w-full' : 'h-16 w-28 shrink-0'
+          )}
+          title="Play recording"
+        >
+          <Play className="h-8 w-8" />
+        </button>
+
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="font-medium truncate" title={recording.title}>{recording.title}</p>
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+            <span>{format(recording.createdAt, 'PP p')}</span>
+            <span className="flex items-center gap-1">
+              <CaptureIcon className="h-3 w-3" />
+              {formatTimestamp(recording.duration * 1000)}
+            </span>
+            <span>{formatBytes(recording.size)}</span>
+          </div>
+          <div className="flex flex-wrap gap-1 pt-1">
+            {recording.part && <Badge variant="outline" className="text-xs">Part {recording.part.index}</Badge>}
+            {!isTranscriptEmpty(recording.transcript) && <Badge variant="secondary" className="text-xs">Transcript</Badge>}
+            {!isMinutesEmpty(recording.minutes) && <Badge variant="secondary" className="text-xs">Minutes</Badge>}
+          </div>
+        </div>
+
+        <div className="flex gap-1">
+          <Button variant="ghost" size="icon" onClick={onDownload} title="Download">
+            <Download className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onRename} title="Rename">
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onDelete} title="Delete">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { TranscriptView } from '@/components/recording/TranscriptView';
+import { MeetingMinutesView } from '@/components/recording/MeetingMinutesView';
+import { useObjectUrl } from '@/hooks/use-object-url';
+import { format } from 'date-fns';
+import { RecordingMetadata, recordingLibrary } from '@/lib/library';
+import { isTranscriptEmpty } from '@/lib/transcript';
+import { Loader2 } from 'lucide-react';
+
+interface RecordingPlayerDialogProps {
+  recording: RecordingMetadata | null;
+  onClose: () => void;
+}
+
+export const RecordingPlayerDialog = ({ recording, onClose }: RecordingPlayerDialogProps) => {
+  const [blob, setBlob] = useState<Blob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const mediaRef = useRef<HTMLVideoElement>(null);
+  const url = useObjectUrl(blob);
+
+  useEffect(() => {
+    setBlob(null);
+    setError(null);
+    setCurrentTime(0);
+    if (!recording) return;
+
+    let cancelled = false;
+    recordingLibrary.getBlob(recording.id)
+      .then(stored => {
+        if (cancelled) return;
+        if (stored) {
+          setBlob(stored);
+        } else {
+          setError('The media for this recording is missing');
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load the recording');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recording]);
+
+  const seek = (ms: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = ms / 1000;
+    media.play().catch(() => {
+      // Autoplay can be refused; the seek still happened
+    });
+  };
+
+  return (
+    <Dialog open={!!recording} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {recording && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{recording.title}</DialogTitle>
+              <DialogDescription>{format(recording.createdAt, 'PPpp')}</DialogDescription>
+            </DialogHeader>
+
+            {url ? (
+              <video
+                ref={mediaRef}
+                src={url}
+                controls
+                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime * 1000)}
+                className="w-full max-h-96 rounded-lg bg-black"
+              />
+            ) : error ? (
+              <p className="text-sm text-destructive text-center py-8">{error}</p>
+            ) : (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            )}
+
+            {!isTranscriptEmpty(recording.transcript) && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Transcript</h4>
+                <div className="bg-muted/50 rounded-lg p-2 max-h-64 overflow-y-auto">
+                  <TranscriptView
+                    transcript={recording.transcript}
+                    currentTime={currentTime}
+                    onSeek={url ? seek : undefined}
+                  />
+                </div>
+              </div>
+            )}
+
+            {recording.minutes && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Meeting Minutes</h4>
+                <div className="bg-muted/50 rounded-lg p-3">
+                  <MeetingMinutesView minutes={recording.minutes} onSeek={url ? seek : undefined} />
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import {
+  AUDIO_SOURCE_LABELS,
+  AudioMixer,
+  AudioMixerSettings,
+  AudioSourceId,
+  MAX_GAIN
+} from '@/lib/audio-mixer';
+import { Volume2, VolumeX } from 'lucide-react';
+
+interface AudioMixerControlsProps {
+  settings: AudioMixerSettings;
+  onChange: (settings: AudioMixerSettings) => void;
+  /** The live mix while recording, for the level meters. */
+  mixer: AudioMixer | null;
+  sources: AudioSourceId[];
+  isRecording?: boolean;
+}
+
+const NO_LEVELS: Record<AudioSourceId, number> = { system: 0, microphone: 0 };
+
+export const AudioMixerControls = ({ settings, onChange, mixer, sources, isRecording }: AudioMixerControlsProps) => {
+  const [levels, setLevels] = useState(NO_LEVELS);
+
+  useEffect(() => {
+    if (!mixer) {
+      setLevels(NO_LEVELS);
+      return;
+    }
+    let frame = requestAnimationFrame(function poll() {
+      setLevels({ system: mixer.getLevel('system'), microphone: mixer.getLevel('microphone') });
+      frame = requestAnimationFrame(poll);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [mixer]);
+
+  const updateChannel = (id: AudioSourceId, changes: Partial<AudioMixerSettings[AudioSourceId]>) => {
+    onChange({ ...settings, [id]: { ...settings[id], ...changes } });
+  };
+
+  return (
+    <div className="space-y-4">
+      {sources.map(id => {
+        const channel = settings[id];
+        const isLive = !!mixer?.has(id);
+        return (
+          <div key={id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`mixer-${id}`}>{AUDIO_SOURCE_LABELS[id]}</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground font-mono">{Math.round(channel.gain * 100)}%</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => updateChannel(id, { muted: !channel.muted })}
+                  aria-label={channel.muted ? `Unmute ${AUDIO_SOURCE_LABELS[id]}` : `Mute ${AUDIO_SOURCE_LABELS[id]}`}
+                >
+                  {channel.muted ? <VolumeX className="h-4 w-4 text-destructive" /> : <Volume2 className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+            <Slider
+              id={`mixer-${id}`}
+              min={0}
+              max={MAX_GAIN}
+              step={0.05}
+              value={[channel.gain]}
+              onValueChange={([gain]) => updateChannel(id, { gain })}
+              disabled={channel.muted}
+            />
+            <div className="h-1.5 w-full overflow-hidden rounded-full bg-secondary">
+              <div
+                className={cn(
+                  'h-full transition-[width] duration-75',
+                  levels[id] > 0.9 ? 'bg-destructive' : 'bg-success'
+                )}
+                style={{ width: `${levels[id] * 100}%` }}
+              />
+            </div>
+            {isRecording && !isLive && (
+              <p className="text-xs text-muted-foreground">Not part of this recording</p>
+            )}
+          </div>
+        );
+      })}
+
+      {sources.includes('microphone') && (
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="mixer-noise-suppression">Noise suppression</Label>
+            <Switch
+              id="mixer-noise-suppression"
+              checked={settings.noiseSuppression}
+              onCheckedChange={(noiseSuppression) => onChange({ ...settings, noiseSuppression })}
+              disabled={isRecording}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="mixer-echo-cancellation">Echo cancellation</Label>
+            <Switch
+              id="mixer-echo-cancellation"
+              checked={settings.echoCancellation}
+              onCheckedChange={(echoCancellation) => onChange({ ...settings, echoCancellation })}
+              disabled={isRecording}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
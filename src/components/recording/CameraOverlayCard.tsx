@@ -0,0 +1,156 @@
+import React, { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { cn } from '@/lib/utils';
+import {
+  OVERLAY_CORNERS,
+  OVERLAY_SIZE_RANGE,
+  OverlayCorner,
+  OverlayLayout,
+  OverlayShape,
+  overlayPositionAt,
+  overlayRect
+} from '@/lib/compositor';
+import { Circle, Square, UserSquare } from 'lucide-react';
+
+interface CameraOverlayCardProps {
+  layout: OverlayLayout;
+  onChange: (layout: OverlayLayout) => void;
+  /** Turning the overlay on or off needs a new capture; position, size and shape apply live. */
+  isRecording?: boolean;
+  /** The overlay only applies to display captures. */
+  unavailable?: boolean;
+}
+
+// The layout preview stands in for a 16:9 frame of these proportions
+const PREVIEW_WIDTH = 160;
+const PREVIEW_HEIGHT = 90;
+
+const CORNER_LABELS: Record<OverlayCorner, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right'
+};
+
+export const CameraOverlayCard = ({ layout, onChange, isRecording, unavailable }: CameraOverlayCardProps) => {
+  const previewRef = useRef<HTMLDivElement>(null);
+  const isDragging = useRef(false);
+  const box = overlayRect(layout, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+  const editable = layout.enabled && !unavailable;
+
+  const moveTo = (event: React.PointerEvent) => {
+    const bounds = previewRef.current?.getBoundingClientRect();
+    if (!bounds?.width) return;
+    const point = {
+      x: ((event.clientX - bounds.left) / bounds.width) * PREVIEW_WIDTH,
+      y: ((event.clientY - bounds.top) / bounds.height) * PREVIEW_HEIGHT
+    };
+    onChange({ ...layout, ...overlayPositionAt(layout, point, PREVIEW_WIDTH, PREVIEW_HEIGHT) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserSquare className="h-5 w-5" />
+          Camera Overlay
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="camera-overlay" className="flex flex-col gap-1">
+            <span>Show camera over the screen</span>
+            <span className="text-xs font-normal text-muted-foreground">
+              {unavailable ? 'Only for screen, window and tab capture' : 'Picture-in-picture for walkthroughs'}
+            </span>
+          </Label>
+          <Switch
+            id="camera-overlay"
+            checked={layout.enabled}
+            onCheckedChange={(enabled) => onChange({ ...layout, enabled })}
+            disabled={isRecording || unavailable}
+          />
+        </div>
+
+        <div
+          ref={previewRef}
+          className={cn(
+            'relative aspect-video w-full touch-none select-none overflow-hidden rounded-md border bg-muted',
+            !editable && 'opacity-50'
+          )}
+          onPointerDown={(e) => {
+            if (!editable) return;
+            isDragging.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            moveTo(e);
+          }}
+          onPointerMove={(e) => isDragging.current && moveTo(e)}
+          onPointerUp={() => (isDragging.current = false)}
+          onPointerCancel={() => (isDragging.current = false)}
+        >
+          <div
+            className={cn(
+              'absolute border-2 border-background bg-primary/70',
+              layout.shape === 'circle' ? 'rounded-full' : 'rounded-md',
+              editable && 'cursor-move'
+            )}
+            style={{
+              left: `${(box.x / PREVIEW_WIDTH) * 100}%`,
+              top: `${(box.y / PREVIEW_HEIGHT) * 100}%`,
+              width: `${(box.width / PREVIEW_WIDTH) * 100}%`,
+              height: `${(box.height / PREVIEW_HEIGHT) * 100}%`
+            }}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">Drag to place the camera; changes apply while recording.</p>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(OVERLAY_CORNERS) as OverlayCorner[]).map(corner => (
+            <Button
+              key={corner}
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ ...layout, ...OVERLAY_CORNERS[corner] })}
+              disabled={!editable}
+            >
+              {CORNER_LABELS[corner]}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-4">
+          <ToggleGroup
+            type="single"
+            value={layout.shape}
+            onValueChange={(shape: OverlayShape) => shape && onChange({ ...layout, shape })}
+            disabled={!editable}
+          >
+            <ToggleGroupItem value="circle" aria-label="Circle">
+              <Circle className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="rounded" aria-label="Rounded rectangle">
+              <Square className="h-4 w-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="camera-overlay-size">Size</Label>
+            <Slider
+              id="camera-overlay-size"
+              min={OVERLAY_SIZE_RANGE.min}
+              max={OVERLAY_SIZE_RANGE.max}
+              step={0.01}
+              value={[layout.size]}
+              onValueChange={([size]) => onChange({ ...layout, size })}
+              disabled={!editable}
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { AlertCircle, Download, Loader2 } from 'lucide-react';
+
+export type ExportStatus = 'ready' | 'pending' | 'empty' | 'error';
+
+export interface ExportItem {
+  id: string;
+  label: string;
+  /** File type shown on the button, e.g. "TXT". */
+  format: string;
+  status: ExportStatus;
+  /** Why the export is unavailable, for every status but `ready`. */
+  message?: string;
+  onExport: () => void;
+}
+
+interface ExportPanelProps {
+  items: ExportItem[];
+}
+
+export const ExportPanel = ({ items }: ExportPanelProps) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="h-5 w-5" />
+          Export
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {items.map(item => (
+          <div key={item.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+            <div className="space-y-1">
+              <p className="text-sm font-medium">{item.label}</p>
+              {item.status !== 'ready' && item.message && (
+                <p
+                  className={cn(
+                    'flex items-center gap-1 text-xs',
+                    item.status === 'error' ? 'text-destructive' : 'text-muted-foreground'
+                  )}
+                >
+                  {item.status === 'error' && <AlertCircle className="h-3 w-3" />}
+                  {item.status === 'pending' && <Loader2 className="h-3 w-3 animate-spin" />}
+                  {item.message}
+                </p>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={item.onExport}
+              disabled={item.status !== 'ready'}
+            >
+              <Download className="h-4 w-4" />
+              {item.format}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
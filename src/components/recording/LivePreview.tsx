@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Eye, EyeOff, MonitorPlay } from 'lucide-react';
+
+interface LivePreviewProps {
+  /** What is being recorded right now. */
+  stream: MediaStream;
+  visible: boolean;
+  onVisibleChange: (visible: boolean) => void;
+}
+
+interface FrameStats {
+  width: number;
+  height: number;
+  fps: number | null;
+}
+
+export const LivePreview = ({ stream, visible, onVisibleChange }: LivePreviewProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [stats, setStats] = useState<FrameStats | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !visible) return;
+    video.srcObject = stream;
+
+    // Count the frames actually delivered; track settings only say what was asked for
+    let frames = 0;
+    let frameRequest = 0;
+    const countFrame = () => {
+      frames++;
+      frameRequest = video.requestVideoFrameCallback(countFrame);
+    };
+    const canCountFrames = 'requestVideoFrameCallback' in video;
+    if (canCountFrames) frameRequest = video.requestVideoFrameCallback(countFrame);
+
+    const timer = setInterval(() => {
+      const settings = stream.getVideoTracks()[0]?.getSettings();
+      setStats({
+        width: video.videoWidth,
+        height: video.videoHeight,
+        fps: canCountFrames ? frames : settings?.frameRate ?? null
+      });
+      frames = 0;
+    }, 1000);
+
+    return () => {
+      clearInterval(timer);
+      if (canCountFrames) video.cancelVideoFrameCallback(frameRequest);
+      video.srcObject = null;
+      setStats(null);
+    };
+  }, [stream, visible]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <MonitorPlay className="h-5 w-5" />
+            Live Preview
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={() => onVisibleChange(!visible)}>
+            {visible ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            {visible ? 'Hide' : 'Show'}
+          </Button>
+        </div>
+      </CardHeader>
+      {visible && (
+        <CardContent>
+          <div className="relative">
+            {/* Muted: the stream carries the microphone, which would otherwise feed back */}
+            <video
+              ref={videoRef}
+              autoPlay
+              muted
+              playsInline
+              className="w-full max-h-96 rounded-lg bg-black"
+            />
+            {stats && stats.width > 0 && (
+              <div className="absolute left-2 top-2 rounded bg-black/60 px-2 py-1 font-mono text-xs text-white">
+                {stats.width}×{stats.height}
+                {stats.fps !== null && ` · ${Math.round(stats.fps)} fps`}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AudioMixer } from '@/lib/audio-mixer';
+import { AudioLines } from 'lucide-react';
+
+interface LiveWaveformProps {
+  /** The mix being recorded. */
+  mixer: AudioMixer;
+  isPaused?: boolean;
+}
+
+// One bar per interval; at this rate the view spans about the last ten seconds
+const BAR_INTERVAL_MS = 50;
+const BAR_WIDTH = 3;
+const BAR_GAP = 1;
+
+/** Scrolling peak waveform of an audio-only recording, in place of a video preview. */
+export const LiveWaveform = ({ mixer, isPaused }: LiveWaveformProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const peaksRef = useRef<number[]>([]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    let peak = 0;
+    let lastBar = performance.now();
+    let frame = requestAnimationFrame(function draw(now) {
+      frame = requestAnimationFrame(draw);
+      if (!isPaused) peak = Math.max(peak, mixer.getMixLevel());
+      if (now - lastBar < BAR_INTERVAL_MS) return;
+      lastBar = now;
+
+      const peaks = peaksRef.current;
+      if (!isPaused) {
+        peaks.push(peak);
+        peak = 0;
+      }
+
+      // Match the backing store to the laid-out size, so bars stay crisp
+      const width = canvas.clientWidth * devicePixelRatio;
+      const height = canvas.clientHeight * devicePixelRatio;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      const step = (BAR_WIDTH + BAR_GAP) * devicePixelRatio;
+      const visible = Math.ceil(width / step);
+      if (peaks.length > visible) peaks.splice(0, peaks.length - visible);
+
+      context.clearRect(0, 0, width, height);
+      context.fillStyle = getComputedStyle(canvas).color;
+      peaks.forEach((value, index) => {
+        // Square root lifts quiet speech off the baseline
+        const barHeight = Math.max(devicePixelRatio, Math.sqrt(value) * height);
+        const x = width - (peaks.length - index) * step;
+        context.fillRect(x, (height - barHeight) / 2, BAR_WIDTH * devicePixelRatio, barHeight);
+      });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [mixer, isPaused]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <AudioLines className="h-5 w-5" />
+          Live Audio
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <canvas
+          ref={canvasRef}
+          className="h-24 w-full rounded-lg bg-muted text-primary"
+          aria-label="Live waveform of the recording"
+        />
+      </CardContent>
+    </Card>
+  );
+};
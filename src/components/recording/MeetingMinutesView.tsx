@@ -0,0 +1,101 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { format, parseISO } from 'date-fns';
+import { MeetingMinutes, MinutesItem, isMinutesEmpty } from '@/lib/minutes';
+import { formatTimestamp } from '@/lib/transcript';
+
+interface MeetingMinutesViewProps {
+  minutes: MeetingMinutes;
+  onSeek?: (ms: number) => void;
+}
+
+const Timestamp = ({ item, onSeek }: { item: MinutesItem; onSeek?: (ms: number) => void }) => {
+  if (item.timestamp === undefined) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSeek?.(item.timestamp)}
+      disabled={!onSeek}
+      className="font-mono text-xs text-primary hover:underline disabled:no-underline disabled:text-muted-foreground pt-0.5"
+      title="Jump to this moment"
+    >
+      {formatTimestamp(item.timestamp)}
+    </button>
+  );
+};
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="space-y-2">
+    <h4 className="text-sm font-semibold">{title}</h4>
+    <ul className="space-y-2">{children}</ul>
+  </div>
+);
+
+export const MeetingMinutesView = ({ minutes, onSeek }: MeetingMinutesViewProps) => {
+  const { summary, decisions, actionItems, openQuestions } = minutes;
+
+  if (isMinutesEmpty(minutes)) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-4">
+        Nothing worth minuting was found in this recording.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {summary && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Summary</h4>
+          <p className="text-sm leading-relaxed">{summary}</p>
+        </div>
+      )}
+
+      {decisions.length > 0 && (
+        <Section title="Decisions">
+          {decisions.map((item, index) => (
+            <li key={index} className="flex items-start gap-3">
+              <Timestamp item={item} onSeek={onSeek} />
+              <p className="flex-1 text-sm">{item.text}</p>
+            </li>
+          ))}
+        </Section>
+      )}
+
+      {actionItems.length > 0 && (
+        <Section title="Action Items">
+          {actionItems.map((item, index) => (
+            <li key={index} className="flex items-start gap-3">
+              <Timestamp item={item} onSeek={onSeek} />
+              <div className="flex-1 space-y-1">
+                <p className="text-sm">{item.text}</p>
+                {(item.owner || item.due) && (
+                  <div className="flex flex-wrap gap-2">
+                    {item.owner && <Badge variant="secondary" className="text-xs">{item.owner}</Badge>}
+                    {item.due && (
+                      <Badge variant="outline" className="text-xs" title={item.due}>
+                        Due {item.dueDate ? format(parseISO(item.dueDate), 'EEE, MMM d') : item.due}
+                      </Badge>
+                    )}
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </Section>
+      )}
+
+      {openQuestions.length > 0 && (
+        <Section title="Open Questions">
+          {openQuestions.map((item, index) => (
+            <li key={index} className="flex items-start gap-3">
+              <Timestamp item={item} onSeek={onSeek} />
+              <p className="flex-1 text-sm">{item.text}</p>
+            </li>
+          ))}
+        </Section>
+      )}
+    </div>
+  );
+};
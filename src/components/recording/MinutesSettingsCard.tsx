@@ -0,0 +1,93 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  DEFAULT_LLM_ENDPOINT,
+  DEFAULT_LLM_MODEL,
+  MINUTES_EXTRACTORS,
+  MinutesExtractorId,
+  MinutesSettings
+} from '@/lib/minutes';
+import { ListChecks } from 'lucide-react';
+
+interface MinutesSettingsCardProps {
+  settings: MinutesSettings;
+  onChange: (settings: MinutesSettings) => void;
+  disabled?: boolean;
+}
+
+export const MinutesSettingsCard = ({
+  settings,
+  onChange,
+  disabled
+}: MinutesSettingsCardProps) => {
+  const selected = MINUTES_EXTRACTORS.find(extractor => extractor.id === settings.extractorId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Meeting Minutes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="minutes-extractor">Extractor</Label>
+          <Select
+            value={settings.extractorId}
+            onValueChange={(extractorId: MinutesExtractorId) => onChange({ ...settings, extractorId })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="minutes-extractor">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MINUTES_EXTRACTORS.map(extractor => (
+                <SelectItem key={extractor.id} value={extractor.id}>
+                  {extractor.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selected && (
+            <p className="text-xs text-muted-foreground">{selected.description}</p>
+          )}
+        </div>
+
+        {settings.extractorId === 'llm' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="minutes-endpoint">Endpoint</Label>
+              <Input
+                id="minutes-endpoint"
+                value={settings.llmEndpoint}
+                onChange={(e) => onChange({ ...settings, llmEndpoint: e.target.value })}
+                disabled={disabled}
+                placeholder={DEFAULT_LLM_ENDPOINT}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="minutes-model">Model</Label>
+              <Input
+                id="minutes-model"
+                value={settings.llmModel}
+                onChange={(e) => onChange({ ...settings, llmModel: e.target.value })}
+                disabled={disabled}
+                placeholder={DEFAULT_LLM_MODEL}
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  AUDIO_BITRATES,
+  AUDIO_RECORDING_FORMATS,
+  AUTO_FORMAT,
+  AudioRecordingFormat,
+  RECORDING_FORMATS,
+  RecorderSettings,
+  VIDEO_BITRATES,
+  formatBitrate,
+  isFormatSupported,
+  resolveFormat
+} from '@/lib/recording-formats';
+import {
+  NegotiatedSettings,
+  QUALITY_PRESETS,
+  formatNegotiatedSettings,
+  getQualityPreset
+} from '@/lib/quality-presets';
+import { Film } from 'lucide-react';
+
+interface RecorderSettingsCardProps {
+  settings: RecorderSettings;
+  onChange: (settings: RecorderSettings) => void;
+  disabled?: boolean;
+  /** What the current capture actually runs at, while recording. */
+  negotiated?: NegotiatedSettings | null;
+  /** Audio-only recordings have no video settings, only the audio format. */
+  audioOnly?: boolean;
+}
+
+export const RecorderSettingsCard = ({
+  settings,
+  onChange,
+  disabled,
+  negotiated,
+  audioOnly
+}: RecorderSettingsCardProps) => {
+  // Support does not change while the page is open
+  const supported = useMemo(() => new Set(RECORDING_FORMATS.filter(isFormatSupported).map(format => format.id)), []);
+  const resolved = resolveFormat(settings.formatId);
+  const isFallback = settings.formatId !== AUTO_FORMAT && resolved?.id !== settings.formatId;
+  const preset = getQualityPreset(settings.presetId);
+  const negotiatedText = negotiated ? formatNegotiatedSettings(negotiated) : '';
+  const audioFormat = AUDIO_RECORDING_FORMATS.find(format => format.id === settings.audioFormat)
+    ?? AUDIO_RECORDING_FORMATS[0];
+
+  const choosePreset = (presetId: string) => {
+    const next = getQualityPreset(presetId);
+    onChange({
+      ...settings,
+      presetId: next.id,
+      videoBitsPerSecond: next.videoBitsPerSecond,
+      audioBitsPerSecond: next.audioBitsPerSecond
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Film className="h-5 w-5" />
+          Recording Format
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {audioOnly ? (
+            <div className="space-y-2">
+              <Label htmlFor="recorder-audio-format">Audio format</Label>
+              <Select
+                value={audioFormat.id}
+                onValueChange={(value) => onChange({ ...settings, audioFormat: value as AudioRecordingFormat })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="recorder-audio-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUDIO_RECORDING_FORMATS.map(format => (
+                    <SelectItem key={format.id} value={format.id}>{format.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="recorder-quality">Quality</Label>
+                <Select value={preset.id} onValueChange={choosePreset} disabled={disabled}>
+                  <SelectTrigger id="recorder-quality">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUALITY_PRESETS.map(option => (
+                      <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="recorder-format">Codec</Label>
+                <Select
+                  value={settings.formatId}
+                  onValueChange={(formatId) => onChange({ ...settings, formatId })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="recorder-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_FORMAT}>Automatic (best available)</SelectItem>
+                    {RECORDING_FORMATS.map(format => (
+                      <SelectItem key={format.id} value={format.id} disabled={!supported.has(format.id)}>
+                        {format.label}
+                        {!supported.has(format.id) && ' (not supported)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="recorder-video-bitrate">Video bitrate</Label>
+                <Select
+                  value={String(settings.videoBitsPerSecond)}
+                  onValueChange={(value) => onChange({ ...settings, videoBitsPerSecond: Number(value) })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="recorder-video-bitrate">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VIDEO_BITRATES.map(bitrate => (
+                      <SelectItem key={bitrate} value={String(bitrate)}>{formatBitrate(bitrate)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="recorder-audio-bitrate">Audio bitrate</Label>
+            <Select
+              value={String(settings.audioBitsPerSecond)}
+              onValueChange={(value) => onChange({ ...settings, audioBitsPerSecond: Number(value) })}
+              disabled={disabled}
+            >
+              <SelectTrigger id="recorder-audio-bitrate">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUDIO_BITRATES.map(bitrate => (
+                  <SelectItem key={bitrate} value={String(bitrate)}>{formatBitrate(bitrate)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {audioOnly ? (
+          <p className="text-xs text-muted-foreground">{audioFormat.description}</p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {preset.description}{' '}
+            {resolved
+              ? `Records as ${resolved.label}${isFallback ? ', because the chosen codec is not supported here' : ''}.`
+              : 'This browser did not report any supported format; it will use its default.'}
+          </p>
+        )}
+        {negotiatedText && (
+          <p className="text-xs">
+            <span className="text-muted-foreground">Capturing at </span>
+            <span className="font-mono">{negotiatedText}</span>
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
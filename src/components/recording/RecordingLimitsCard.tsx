@@ -0,0 +1,88 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  COUNTDOWN_OPTIONS,
+  MAX_DURATION_OPTIONS,
+  MAX_SIZE_OPTIONS,
+  RecordingLimits,
+  SPLIT_OPTIONS,
+  describeLimits,
+  formatMegabytes,
+  formatMinutes
+} from '@/lib/recording-limits';
+import { Timer } from 'lucide-react';
+
+interface RecordingLimitsCardProps {
+  limits: RecordingLimits;
+  onChange: (limits: RecordingLimits) => void;
+  disabled?: boolean;
+}
+
+interface LimitField {
+  key: keyof RecordingLimits;
+  label: string;
+  options: number[];
+  /** Label for 0, which turns the limit off. */
+  offLabel: string;
+  format: (value: number) => string;
+}
+
+const FIELDS: LimitField[] = [
+  { key: 'countdown', label: 'Countdown', options: COUNTDOWN_OPTIONS, offLabel: 'Off', format: value => `${value} s` },
+  { key: 'maxDuration', label: 'Stop after', options: MAX_DURATION_OPTIONS, offLabel: 'No limit', format: formatMinutes },
+  { key: 'maxSize', label: 'Stop at size', options: MAX_SIZE_OPTIONS, offLabel: 'No limit', format: formatMegabytes },
+  { key: 'splitEvery', label: 'New part every', options: SPLIT_OPTIONS, offLabel: 'Never', format: formatMinutes }
+];
+
+export const RecordingLimitsCard = ({ limits, onChange, disabled }: RecordingLimitsCardProps) => {
+  const summary = describeLimits(limits);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Timing & Limits
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {FIELDS.map(field => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`recording-limit-${field.key}`}>{field.label}</Label>
+              <Select
+                value={String(limits[field.key])}
+                onValueChange={(value) => onChange({ ...limits, [field.key]: Number(value) })}
+                disabled={disabled}
+              >
+                <SelectTrigger id={`recording-limit-${field.key}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {field.options.map(option => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option ? field.format(option) : field.offLabel}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {summary ? `${summary}.` : 'Records until you stop it.'}
+          {limits.splitEvery > 0 && ' Each part is saved to the library as its own recording, numbered within the session.'}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
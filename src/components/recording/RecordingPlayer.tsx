@@ -0,0 +1,135 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Waveform } from '@/components/recording/Waveform';
+import { formatTimestamp } from '@/lib/transcript';
+import { cn } from '@/lib/utils';
+import { WaveformData } from '@/lib/waveform';
+import { Pause, Play } from 'lucide-react';
+
+interface RecordingPlayerProps {
+  src: string;
+  /** Seconds; used while the file itself does not report a duration. */
+  fallbackDuration?: number;
+  /** Milliseconds. */
+  onTimeUpdate?: (ms: number) => void;
+  /** Audio recordings have no picture to show; the controls still play them. */
+  audioOnly?: boolean;
+  /** Shown above the scrub bar once the recording's audio has been decoded. */
+  waveform?: WaveformData | null;
+  /** Jump over the waveform's silences while playing. */
+  skipSilences?: boolean;
+  children?: React.ReactNode;
+}
+
+/** Playback for a finished recording, with a scrub bar. `children` go inside the video, e.g. caption tracks. */
+export const RecordingPlayer = forwardRef<HTMLVideoElement, RecordingPlayerProps>(
+  ({ src, fallbackDuration = 0, onTimeUpdate, audioOnly, waveform, skipSilences, children }, ref) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    useImperativeHandle(ref, () => videoRef.current as HTMLVideoElement);
+
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [mediaDuration, setMediaDuration] = useState(0);
+    // Scrubbing shows where the thumb is rather than where playback was
+    const [scrubTime, setScrubTime] = useState<number | null>(null);
+
+    useEffect(() => {
+      setIsPlaying(false);
+      setCurrentTime(0);
+      setMediaDuration(0);
+    }, [src]);
+
+    // timeupdate fires only a few times a second; poll every frame so skips land close to the edge
+    useEffect(() => {
+      const video = videoRef.current;
+      if (!video || !isPlaying || !skipSilences || !waveform?.silences.length) return;
+
+      let frame = requestAnimationFrame(function skip() {
+        frame = requestAnimationFrame(skip);
+        const ms = video.currentTime * 1000;
+        const silence = waveform.silences.find(range => ms >= range.start && ms < range.end);
+        if (silence) video.currentTime = silence.end / 1000;
+      });
+      return () => cancelAnimationFrame(frame);
+    }, [isPlaying, skipSilences, waveform]);
+
+    // Recorder output often reports an infinite duration until it has been read through
+    const duration = Number.isFinite(mediaDuration) && mediaDuration > 0 ? mediaDuration : fallbackDuration;
+    const shownTime = scrubTime ?? currentTime;
+
+    const togglePlayback = () => {
+      const video = videoRef.current;
+      if (!video) return;
+      if (video.paused) {
+        video.play().catch(error => console.error('Error playing recording:', error));
+      } else {
+        video.pause();
+      }
+    };
+
+    const seek = (seconds: number) => {
+      const video = videoRef.current;
+      if (!video) return;
+      video.currentTime = seconds;
+      setCurrentTime(seconds);
+    };
+
+    return (
+      <div className="space-y-3">
+        <video
+          ref={videoRef}
+          src={src}
+          onClick={togglePlayback}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onLoadedMetadata={(e) => setMediaDuration(e.currentTarget.duration)}
+          onDurationChange={(e) => setMediaDuration(e.currentTarget.duration)}
+          onTimeUpdate={(e) => {
+            setCurrentTime(e.currentTarget.currentTime);
+            onTimeUpdate?.(e.currentTarget.currentTime * 1000);
+          }}
+          className={cn('w-full max-h-96 rounded-lg bg-black cursor-pointer', audioOnly && 'hidden')}
+        >
+          {children}
+        </video>
+        {waveform && (
+          <Waveform
+            waveform={waveform}
+            duration={duration * 1000}
+            currentTime={shownTime * 1000}
+            onSeek={ms => seek(ms / 1000)}
+          />
+        )}
+        <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={togglePlayback}
+            aria-label={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Slider
+            min={0}
+            max={duration || 1}
+            step={0.1}
+            value={[Math.min(shownTime, duration || 1)]}
+            onValueChange={([seconds]) => setScrubTime(seconds)}
+            onValueCommit={([seconds]) => {
+              seek(seconds);
+              setScrubTime(null);
+            }}
+            disabled={!duration}
+            aria-label="Seek"
+          />
+          <span className="shrink-0 font-mono text-xs text-muted-foreground">
+            {formatTimestamp(shownTime * 1000)} / {formatTimestamp(duration * 1000)}
+          </span>
+        </div>
+      </div>
+    );
+  }
+);
+RecordingPlayer.displayName = 'RecordingPlayer';
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { CAPTURE_MODE_LABELS } from '@/lib/capture';
+import { formatBytes, recordingLibrary } from '@/lib/library';
+import { RecordingSession, recordingSessions } from '@/lib/recording-sessions';
+import { formatTimestamp } from '@/lib/transcript';
+import { setWebMDuration } from '@/lib/webm-duration';
+import { Loader2 } from 'lucide-react';
+
+/**
+ * Looks for recordings that were cut short by a crash or a closed tab and
+ * offers to save what was captured to the library.
+ */
+export const SessionRecoveryDialog = () => {
+  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    recordingSessions.listOrphaned()
+      .then(setSessions)
+      .catch(error => console.error('Error checking for unfinished recordings:', error));
+  }, []);
+
+  const dismiss = (id: string) => {
+    setSessions(prev => prev.filter(session => session.id !== id));
+  };
+
+  const recover = async (session: RecordingSession) => {
+    setBusyId(session.id);
+    try {
+      const chunks = await recordingSessions.assemble(session.id);
+      const blob = await setWebMDuration(chunks, session.duration * 1000);
+      await recordingLibrary.add({
+        blob,
+        title: `Recovered recording ${format(session.startedAt, 'PP p')}`,
+        createdAt: session.startedAt,
+        duration: session.duration,
+        captureMode: session.captureMode,
+        transcript: null,
+        minutes: null
+      });
+      await recordingSessions.discard(session.id);
+      dismiss(session.id);
+      toast({
+        title: "Recording Recovered",
+        description: "It has been saved to your library",
+      });
+    } catch (error) {
+      toast({
+        title: "Recovery Failed",
+        description: error instanceof Error ? error.message : "Could not reassemble the recording",
+        variant: "destructive"
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const discard = async (session: RecordingSession) => {
+    setBusyId(session.id);
+    try {
+      await recordingSessions.discard(session.id);
+      dismiss(session.id);
+    } catch (error) {
+      console.error('Error discarding recording session:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <AlertDialog open={sessions.length > 0}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Unfinished recordings found</AlertDialogTitle>
+          <AlertDialogDescription>
+            These recordings were interrupted before they were saved, probably because the tab closed or crashed.
+            Recover them to your library or discard them.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2">
+          {sessions.map(session => (
+            <div key={session.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div className="space-y-1">
+                <p className="text-sm font-medium">{format(session.startedAt, 'PP p')}</p>
+                <p className="text-xs text-muted-foreground">
+                  {CAPTURE_MODE_LABELS[session.captureMode] ?? session.captureMode} · {formatTimestamp(session.duration * 1000)} · {formatBytes(session.size)}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => discard(session)}
+                  disabled={busyId !== null}
+                >
+                  Discard
+                </Button>
+                <Button size="sm" onClick={() => recover(session)} disabled={busyId !== null}>
+                  {busyId === session.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Recover
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={() => setSessions([])} disabled={busyId !== null}>
+            Decide later
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
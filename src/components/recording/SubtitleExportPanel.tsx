@@ -0,0 +1,89 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { SubtitleFormat, SubtitleOptions } from '@/lib/subtitles';
+import { Captions } from 'lucide-react';
+
+export interface SubtitleSettings extends SubtitleOptions {
+  /** Save a matching `.vtt` next to the recording when it is downloaded. */
+  includeWithRecording: boolean;
+}
+
+interface SubtitleExportPanelProps {
+  settings: SubtitleSettings;
+  onChange: (settings: SubtitleSettings) => void;
+  onExport: (format: SubtitleFormat) => void;
+}
+
+export const SubtitleExportPanel = ({ settings, onChange, onExport }: SubtitleExportPanelProps) => {
+  const updateNumber = (key: 'maxLineLength' | 'maxCharsPerSecond' | 'maxLines', value: string) => {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed) && parsed > 0) {
+      onChange({ ...settings, [key]: parsed });
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Captions className="h-4 w-4" />
+        Subtitles
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="subtitle-line-length" className="text-xs">Chars / line</Label>
+          <Input
+            id="subtitle-line-length"
+            type="number"
+            min={16}
+            value={settings.maxLineLength}
+            onChange={(e) => updateNumber('maxLineLength', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="subtitle-lines" className="text-xs">Lines / cue</Label>
+          <Input
+            id="subtitle-lines"
+            type="number"
+            min={1}
+            max={3}
+            value={settings.maxLines}
+            onChange={(e) => updateNumber('maxLines', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="subtitle-cps" className="text-xs">Chars / second</Label>
+          <Input
+            id="subtitle-cps"
+            type="number"
+            min={5}
+            value={settings.maxCharsPerSecond}
+            onChange={(e) => updateNumber('maxCharsPerSecond', e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="subtitle-with-recording"
+            checked={settings.includeWithRecording}
+            onCheckedChange={(includeWithRecording) => onChange({ ...settings, includeWithRecording })}
+          />
+          <Label htmlFor="subtitle-with-recording" className="text-xs">
+            Save .vtt with recording download
+          </Label>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onExport('srt')}>
+            SRT
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onExport('vtt')}>
+            VTT
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
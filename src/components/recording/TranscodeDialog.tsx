@@ -0,0 +1,340 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob, timestampedName } from '@/lib/export';
+import {
+  AnimationSettings,
+  GIF_DITHER_LABELS,
+  GifDither,
+  TRANSCODE_FORMATS,
+  TranscodeCancelledError,
+  TranscodeFormatId,
+  TranscodeSettings,
+  getTranscodeFormat,
+  transcodeRecording
+} from '@/lib/transcode';
+import { Download, Loader2 } from 'lucide-react';
+
+interface TranscodeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recording: Blob;
+  /** Seconds. */
+  duration: number;
+  settings: TranscodeSettings;
+  onSettingsChange: (settings: TranscodeSettings) => void;
+}
+
+const VIDEO_QUALITIES = [
+  { crf: 18, label: 'High (larger file)' },
+  { crf: 23, label: 'Standard' },
+  { crf: 28, label: 'Small (lower quality)' }
+];
+const AUDIO_BITRATES_KBPS = [64, 96, 128, 192, 256];
+const ANIMATION_FPS = [5, 10, 12, 15, 24];
+const ANIMATION_WIDTHS = [320, 480, 640, 800, 1024];
+const GIF_COLORS = [32, 64, 128, 256];
+// Animations of whole recordings run to hundreds of megabytes
+const MAX_ANIMATION_SECONDS = 60;
+
+/** Export the finished recording as MP4, an animation or audio only, converted in the browser. */
+export const TranscodeDialog = ({
+  open,
+  onOpenChange,
+  recording,
+  duration,
+  settings,
+  onSettingsChange
+}: TranscodeDialogProps) => {
+  const controllerRef = useRef<AbortController | null>(null);
+  const [isLoadingCore, setIsLoadingCore] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const format = getTranscodeFormat(settings.formatId);
+  const { animation } = settings;
+  const isExporting = progress !== null;
+  const usesAudioBitrate = settings.formatId === 'mp4' || settings.formatId === 'mp3' || settings.formatId === 'opus';
+
+  const changeAnimation = (changes: Partial<AnimationSettings>) => {
+    onSettingsChange({ ...settings, animation: { ...animation, ...changes } });
+  };
+
+  const startExport = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress(0);
+    try {
+      const start = Math.min(animation.start, Math.max(0, duration - 1));
+      const outputDuration = format.kind === 'animation' ? Math.min(animation.length, duration - start) : duration;
+      const blob = await transcodeRecording(
+        recording,
+        format.kind === 'animation' ? { ...settings, animation: { ...animation, start } } : settings,
+        {
+          duration: outputDuration,
+          signal: controller.signal,
+          onLoading: () => setIsLoadingCore(true),
+          onProgress: (value) => {
+            setIsLoadingCore(false);
+            setProgress(value);
+          }
+        }
+      );
+
+      downloadBlob(blob, `${timestampedName('recording')}.${format.extension}`);
+      toast({
+        title: "Download Started",
+        description: `Your recording is being downloaded as ${format.label}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof TranscodeCancelledError) return;
+      console.error('Error converting recording:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The recording could not be converted",
+        variant: "destructive"
+      });
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setIsLoadingCore(false);
+      setProgress(null);
+    }
+  };
+
+  const cancelExport = () => {
+    controllerRef.current?.abort();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) cancelExport();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Recording</DialogTitle>
+          <DialogDescription>
+            Convert the recording in your browser; nothing is uploaded. The converter (about 30 MB) loads on first use.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="transcode-format">Format</Label>
+            <Select
+              value={settings.formatId}
+              onValueChange={(formatId) => onSettingsChange({ ...settings, formatId: formatId as TranscodeFormatId })}
+              disabled={isExporting}
+            >
+              <SelectTrigger id="transcode-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSCODE_FORMATS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{format.description}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {settings.formatId === 'mp4' && (
+              <div className="space-y-2">
+                <Label htmlFor="transcode-quality">Video quality</Label>
+                <Select
+                  value={String(settings.videoQuality)}
+                  onValueChange={(value) => onSettingsChange({ ...settings, videoQuality: Number(value) })}
+                  disabled={isExporting}
+                >
+                  <SelectTrigger id="transcode-quality">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VIDEO_QUALITIES.map(quality => (
+                      <SelectItem key={quality.crf} value={String(quality.crf)}>{quality.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {usesAudioBitrate && (
+              <div className="space-y-2">
+                <Label htmlFor="transcode-audio-bitrate">Audio bitrate</Label>
+                <Select
+                  value={String(settings.audioBitrate)}
+                  onValueChange={(value) => onSettingsChange({ ...settings, audioBitrate: Number(value) })}
+                  disabled={isExporting}
+                >
+                  <SelectTrigger id="transcode-audio-bitrate">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AUDIO_BITRATES_KBPS.map(bitrate => (
+                      <SelectItem key={bitrate} value={String(bitrate)}>{bitrate} kbps</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {format.kind === 'animation' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="transcode-start">Start (seconds)</Label>
+                  <Input
+                    id="transcode-start"
+                    type="number"
+                    min={0}
+                    max={Math.floor(duration)}
+                    value={animation.start}
+                    onChange={(e) => changeAnimation({ start: Math.max(0, Number(e.target.value) || 0) })}
+                    disabled={isExporting}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transcode-length">Length (seconds)</Label>
+                  <Input
+                    id="transcode-length"
+                    type="number"
+                    min={1}
+                    max={MAX_ANIMATION_SECONDS}
+                    value={animation.length}
+                    onChange={(e) => changeAnimation({
+                      length: Math.min(MAX_ANIMATION_SECONDS, Math.max(1, Number(e.target.value) || 1))
+                    })}
+                    disabled={isExporting}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transcode-fps">Frame rate</Label>
+                  <Select
+                    value={String(animation.fps)}
+                    onValueChange={(value) => changeAnimation({ fps: Number(value) })}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="transcode-fps">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ANIMATION_FPS.map(fps => (
+                        <SelectItem key={fps} value={String(fps)}>{fps} fps</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transcode-width">Width</Label>
+                  <Select
+                    value={String(animation.width)}
+                    onValueChange={(value) => changeAnimation({ width: Number(value) })}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="transcode-width">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ANIMATION_WIDTHS.map(width => (
+                        <SelectItem key={width} value={String(width)}>{width} px</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
+            {settings.formatId === 'gif' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="transcode-colors">Palette</Label>
+                  <Select
+                    value={String(animation.colors)}
+                    onValueChange={(value) => changeAnimation({ colors: Number(value) })}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="transcode-colors">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GIF_COLORS.map(colors => (
+                        <SelectItem key={colors} value={String(colors)}>{colors} colours</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="transcode-dither">Dithering</Label>
+                  <Select
+                    value={animation.dither}
+                    onValueChange={(value) => changeAnimation({ dither: value as GifDither })}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger id="transcode-dither">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(GIF_DITHER_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+          </div>
+
+          {isExporting && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span className="flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {isLoadingCore ? 'Loading converter...' : `Converting to ${format.label}...`}
+                </span>
+                {!isLoadingCore && <span>{Math.round(progress * 100)}%</span>}
+              </div>
+              <Progress value={isLoadingCore ? undefined : progress * 100} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isExporting ? (
+            <Button variant="outline" onClick={cancelExport}>
+              Cancel
+            </Button>
+          ) : (
+            <Button onClick={startExport}>
+              <Download className="h-4 w-4" />
+              Export {format.label}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { Transcript, formatTimestamp } from '@/lib/transcript';
+
+interface TranscriptViewProps {
+  transcript: Transcript;
+  /** Playback position of the recording preview, to highlight the current segment. */
+  currentTime?: number;
+  onSeek?: (ms: number) => void;
+}
+
+// Segments below this confidence are dimmed so reviewers know to double-check them
+const LOW_CONFIDENCE = 0.5;
+
+export const TranscriptView = ({ transcript, currentTime, onSeek }: TranscriptViewProps) => {
+  const segments = transcript.segments.filter(segment => segment.text);
+
+  if (!segments.length) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-4">
+        No speech was detected in this recording.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {segments.map(segment => {
+        const isActive = currentTime !== undefined && currentTime >= segment.start && currentTime < segment.end;
+        const isLowConfidence = segment.confidence !== undefined && segment.confidence < LOW_CONFIDENCE;
+
+        return (
+          <div
+            key={segment.id}
+            className={cn(
+              'flex items-start gap-3 rounded-md p-2 transition-colors',
+              isActive && 'bg-primary/10'
+            )}
+          >
+            <button
+              type="button"
+              onClick={() => onSeek?.(segment.start)}
+              disabled={!onSeek}
+              className="font-mono text-xs text-primary hover:underline disabled:no-underline disabled:text-muted-foreground pt-0.5"
+              title="Jump to this moment"
+            >
+              {formatTimestamp(segment.start)}
+            </button>
+            <div className="flex-1 space-y-1">
+              {segment.speaker && (
+                <Badge variant="outline" className="text-xs">{segment.speaker}</Badge>
+              )}
+              <p
+                className={cn('text-sm leading-relaxed', isLowConfidence && 'text-muted-foreground')}
+                title={segment.confidence !== undefined ? `Confidence ${Math.round(segment.confidence * 100)}%` : undefined}
+              >
+                {segment.text}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
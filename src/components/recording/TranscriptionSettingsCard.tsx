@@ -0,0 +1,91 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  TRANSCRIPTION_ENGINES,
+  TranscriptionEngineId,
+  TranscriptionSettings
+} from '@/lib/transcription';
+import { FileText } from 'lucide-react';
+
+interface TranscriptionSettingsCardProps {
+  settings: TranscriptionSettings;
+  onChange: (settings: TranscriptionSettings) => void;
+  disabled?: boolean;
+}
+
+export const TranscriptionSettingsCard = ({
+  settings,
+  onChange,
+  disabled
+}: TranscriptionSettingsCardProps) => {
+  const selected = TRANSCRIPTION_ENGINES.find(engine => engine.id === settings.engineId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Transcription
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="transcription-engine">Engine</Label>
+          <Select
+            value={settings.engineId}
+            onValueChange={(engineId: TranscriptionEngineId) => onChange({ ...settings, engineId })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="transcription-engine">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRANSCRIPTION_ENGINES.map(engine => (
+                <SelectItem key={engine.id} value={engine.id} disabled={!engine.isSupported()}>
+                  {engine.label}
+                  {!engine.isSupported() && ' (not supported in this browser)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selected && (
+            <p className="text-xs text-muted-foreground">{selected.description}</p>
+          )}
+        </div>
+
+        {settings.engineId === 'http' && (
+          <div className="space-y-2">
+            <Label htmlFor="transcription-endpoint">Endpoint</Label>
+            <Input
+              id="transcription-endpoint"
+              value={settings.httpEndpoint}
+              onChange={(e) => onChange({ ...settings, httpEndpoint: e.target.value })}
+              disabled={disabled}
+              placeholder="http://localhost:8000/v1/audio/transcriptions"
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="transcription-language">Language</Label>
+          <Input
+            id="transcription-language"
+            value={settings.language}
+            onChange={(e) => onChange({ ...settings, language: e.target.value })}
+            disabled={disabled}
+            placeholder="en-US"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
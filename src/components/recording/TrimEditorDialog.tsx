@@ -0,0 +1,357 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { useObjectUrl } from '@/hooks/use-object-url';
+import { useWaveform } from '@/hooks/use-waveform';
+import { Waveform } from '@/components/recording/Waveform';
+import {
+  EditDecision,
+  TimeRange,
+  UnsupportedRecordingError,
+  editedDuration,
+  editorForRecording,
+  keptRanges
+} from '@/lib/editing';
+import { downloadBlob, timestampedName } from '@/lib/export';
+import { extensionForMimeType } from '@/lib/recording-formats';
+import { formatTimestamp } from '@/lib/transcript';
+import { Download, Library, Loader2, Pause, Play, Scissors, Undo2, X } from 'lucide-react';
+
+interface TrimEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recording: Blob;
+  /** Seconds; used while the file itself does not report a duration. */
+  fallbackDuration: number;
+  /** Stores the edited copy; `ranges` are the parts of the original it kept. */
+  onSave: (edited: Blob, ranges: TimeRange[]) => Promise<void>;
+}
+
+const INITIAL_EDIT: EditDecision = { inPoint: 0, outPoint: Infinity, cuts: [] };
+
+/** Set in/out points and cut segments out of a finished recording, then export the result. */
+export const TrimEditorDialog = ({ open, onOpenChange, recording, fallbackDuration, onSave }: TrimEditorDialogProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const src = useObjectUrl(open ? recording : null);
+  const waveform = useWaveform(recording);
+  const [mediaDuration, setMediaDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [edit, setEdit] = useState<EditDecision>(INITIAL_EDIT);
+  // Where a cut being marked starts, until its end is marked
+  const [cutStart, setCutStart] = useState<number | null>(null);
+
+  const exportControllerRef = useRef<AbortController | null>(null);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [isLoadingEditor, setIsLoadingEditor] = useState(false);
+  const [edited, setEdited] = useState<Blob | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  // A new recording starts a new edit
+  useEffect(() => {
+    setEdit(INITIAL_EDIT);
+    setCutStart(null);
+    setEdited(null);
+  }, [recording]);
+
+  // Nothing keeps exporting once the dialog is gone
+  useEffect(() => () => exportControllerRef.current?.abort(), []);
+
+  // Milliseconds from here on; recorder output can report an infinite duration
+  const duration = (Number.isFinite(mediaDuration) && mediaDuration > 0 ? mediaDuration : fallbackDuration) * 1000;
+  const ranges = useMemo(() => keptRanges(edit, duration), [edit, duration]);
+  const outPoint = Math.min(edit.outPoint, duration);
+  const isExporting = exportProgress !== null;
+
+  const changeEdit = (changes: Partial<EditDecision>) => {
+    setEdit(prev => ({ ...prev, ...changes }));
+    // The exported copy no longer matches
+    setEdited(null);
+  };
+
+  const seek = (ms: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = ms / 1000;
+    setCurrentTime(ms);
+  };
+
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      // Play the edit as it will come out: from the in point if we are outside it
+      if (!ranges.some(range => currentTime >= range.start && currentTime < range.end)) {
+        const next = ranges.find(range => range.start >= currentTime) ?? ranges[0];
+        if (next) seek(next.start);
+      }
+      video.play().catch(error => console.error('Error playing recording:', error));
+    } else {
+      video.pause();
+    }
+  };
+
+  const handleTimeUpdate = (video: HTMLVideoElement) => {
+    const time = video.currentTime * 1000;
+    setCurrentTime(time);
+    if (video.paused || ranges.some(range => time >= range.start && time < range.end)) return;
+
+    // Playing through a removed part: jump over it, or stop after the out point
+    const next = ranges.find(range => range.start > time);
+    if (next) seek(next.start);
+    else video.pause();
+  };
+
+  const setInPoint = () => changeEdit({ inPoint: Math.min(currentTime, outPoint) });
+  const setOutPoint = () => changeEdit({ outPoint: Math.max(currentTime, edit.inPoint) });
+
+  const markCut = () => {
+    if (cutStart === null) {
+      setCutStart(currentTime);
+      return;
+    }
+    const cut = { start: Math.min(cutStart, currentTime), end: Math.max(cutStart, currentTime) };
+    setCutStart(null);
+    if (cut.end > cut.start) {
+      changeEdit({ cuts: [...edit.cuts, cut].sort((a, b) => a.start - b.start) });
+    }
+  };
+
+  const removeCut = (index: number) => {
+    changeEdit({ cuts: edit.cuts.filter((_, i) => i !== index) });
+  };
+
+  const reset = () => {
+    setCutStart(null);
+    changeEdit(INITIAL_EDIT);
+  };
+
+  const exportEdit = async () => {
+    videoRef.current?.pause();
+    const controller = new AbortController();
+    exportControllerRef.current = controller;
+    setExportProgress(0);
+    try {
+      const editor = editorForRecording(recording);
+      const blob = await editor.render(recording, ranges, {
+        signal: controller.signal,
+        onLoading: () => setIsLoadingEditor(true),
+        onProgress: (value) => {
+          setIsLoadingEditor(false);
+          setExportProgress(value);
+        }
+      });
+      setEdited(blob);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error exporting edited recording:', error);
+      toast({
+        title: error instanceof UnsupportedRecordingError ? "Cannot Edit This Recording" : "Export Failed",
+        description: error instanceof Error ? error.message : "The edited recording could not be created",
+        variant: "destructive"
+      });
+    } finally {
+      if (exportControllerRef.current === controller) exportControllerRef.current = null;
+      setIsLoadingEditor(false);
+      setExportProgress(null);
+    }
+  };
+
+  const cancelExport = () => {
+    exportControllerRef.current?.abort();
+  };
+
+  const downloadEdited = () => {
+    if (!edited) return;
+    downloadBlob(edited, `${timestampedName('recording-edited')}.${extensionForMimeType(edited.type)}`);
+    toast({
+      title: "Download Started",
+      description: "Your edited recording is being downloaded",
+    });
+  };
+
+  const saveEdited = async () => {
+    if (!edited) return;
+    setIsSaving(true);
+    try {
+      await onSave(edited, ranges);
+      toast({
+        title: "Saved to Library",
+        description: "The edited copy is in your library; the original is unchanged",
+      });
+    } catch (error) {
+      toast({
+        title: "Not Saved to Library",
+        description: error instanceof Error ? error.message : "Download the edited recording to keep it",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const position = (ms: number) => `${duration ? (Math.min(ms, duration) / duration) * 100 : 0}%`;
+  const span = (range: TimeRange) => ({
+    left: position(range.start),
+    width: `${duration ? ((Math.min(range.end, duration) - range.start) / duration) * 100 : 0}%`
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) {
+          cancelExport();
+          videoRef.current?.pause();
+        }
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Edit Recording</DialogTitle>
+          <DialogDescription>
+            Trim the start and end, cut out parts you do not need, and export an edited copy.
+            The transcript and minutes follow the edit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {src && (
+            <video
+              ref={videoRef}
+              src={src}
+              onClick={togglePlayback}
+              onPlay={() => setIsPlaying(true)}
+              onPause={() => setIsPlaying(false)}
+              onEnded={() => setIsPlaying(false)}
+              onLoadedMetadata={(e) => setMediaDuration(e.currentTarget.duration)}
+              onDurationChange={(e) => setMediaDuration(e.currentTarget.duration)}
+              onTimeUpdate={(e) => handleTimeUpdate(e.currentTarget)}
+              className="w-full max-h-72 rounded-lg bg-black cursor-pointer"
+            />
+          )}
+
+          {/* Timeline: the waveform, dimmed outside the in/out points, red where cut */}
+          <Waveform waveform={waveform} duration={duration} currentTime={currentTime} onSeek={seek}>
+            <div className="absolute inset-y-0 left-0 bg-background/70" style={{ width: position(edit.inPoint) }} />
+            <div className="absolute inset-y-0 right-0 bg-background/70" style={{ left: position(outPoint) }} />
+            {edit.cuts.map((cut, index) => (
+              <div key={index} className="absolute inset-y-0 bg-destructive/40" style={span(cut)} />
+            ))}
+            {cutStart !== null && (
+              <div
+                className="absolute inset-y-0 border-x border-destructive bg-destructive/20"
+                style={span({ start: Math.min(cutStart, currentTime), end: Math.max(cutStart, currentTime) })}
+              />
+            )}
+          </Waveform>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="icon" onClick={togglePlayback} aria-label={isPlaying ? 'Pause' : 'Play'}>
+              {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <span className="font-mono text-xs text-muted-foreground">
+              {formatTimestamp(currentTime)} / {formatTimestamp(duration)}
+            </span>
+            <div className="flex-1" />
+            <Button variant="outline" size="sm" onClick={setInPoint} disabled={isExporting}>
+              Set In
+            </Button>
+            <Button variant="outline" size="sm" onClick={setOutPoint} disabled={isExporting}>
+              Set Out
+            </Button>
+            <Button
+              variant={cutStart === null ? 'outline' : 'destructive'}
+              size="sm"
+              onClick={markCut}
+              disabled={isExporting}
+            >
+              <Scissors className="h-4 w-4" />
+              {cutStart === null ? 'Start Cut' : 'End Cut'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={reset} disabled={isExporting}>
+              <Undo2 className="h-4 w-4" />
+              Reset
+            </Button>
+          </div>
+
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between text-muted-foreground">
+              <span>
+                In {formatTimestamp(edit.inPoint)} · Out {formatTimestamp(outPoint)}
+              </span>
+              <span>
+                Edited length {formatTimestamp(editedDuration(ranges))} of {formatTimestamp(duration)}
+              </span>
+            </div>
+            {edit.cuts.map((cut, index) => (
+              <div key={index} className="flex items-center justify-between rounded-md border px-3 py-1.5">
+                <button className="font-mono text-xs hover:underline" onClick={() => seek(cut.start)}>
+                  Cut {formatTimestamp(cut.start)} – {formatTimestamp(cut.end)}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => removeCut(index)}
+                  disabled={isExporting}
+                  aria-label="Remove cut"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {isExporting && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span className="flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {isLoadingEditor ? 'Loading editor...' : 'Exporting edited recording...'}
+                </span>
+                {!isLoadingEditor && <span>{Math.round(exportProgress * 100)}%</span>}
+              </div>
+              <Progress value={isLoadingEditor ? undefined : exportProgress * 100} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {isExporting ? (
+            <Button variant="outline" onClick={cancelExport}>
+              Cancel Export
+            </Button>
+          ) : edited ? (
+            <>
+              <Button variant="outline" onClick={saveEdited} disabled={isSaving}>
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Library className="h-4 w-4" />}
+                Save to Library
+              </Button>
+              <Button onClick={downloadEdited}>
+                <Download className="h-4 w-4" />
+                Download
+              </Button>
+            </>
+          ) : (
+            <Button onClick={exportEdit} disabled={!ranges.length || !duration}>
+              <Scissors className="h-4 w-4" />
+              Export Edit
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { WaveformData, peakBetween } from '@/lib/waveform';
+
+interface WaveformProps {
+  waveform: WaveformData | null;
+  /** Milliseconds; the player's length, which positions are measured against. */
+  duration: number;
+  /** Milliseconds. */
+  currentTime: number;
+  onSeek?: (ms: number) => void;
+  showSilences?: boolean;
+  className?: string;
+  /** Overlays drawn above the waveform, e.g. trim markers. */
+  children?: React.ReactNode;
+}
+
+const BAR_WIDTH = 2;
+const BAR_GAP = 1;
+
+/** A recording's waveform with its silences shaded; click anywhere to seek there. */
+export const Waveform = ({
+  waveform,
+  duration,
+  currentTime,
+  onSeek,
+  showSilences = true,
+  className,
+  children
+}: WaveformProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const draw = () => {
+      const width = canvas.clientWidth * devicePixelRatio;
+      const height = canvas.clientHeight * devicePixelRatio;
+      canvas.width = width;
+      canvas.height = height;
+      context.clearRect(0, 0, width, height);
+      if (!waveform || !duration) return;
+
+      context.fillStyle = getComputedStyle(canvas).color;
+      const step = (BAR_WIDTH + BAR_GAP) * devicePixelRatio;
+      const msPerPixel = duration / width;
+      for (let x = 0; x < width; x += step) {
+        const peak = peakBetween(waveform, x * msPerPixel, (x + step) * msPerPixel);
+        // Square root lifts quiet speech off the baseline, as in the live waveform
+        const barHeight = Math.max(devicePixelRatio, Math.sqrt(peak) * height);
+        context.fillRect(x, (height - barHeight) / 2, BAR_WIDTH * devicePixelRatio, barHeight);
+      }
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [waveform, duration]);
+
+  const position = (ms: number) => `${duration ? (Math.min(Math.max(ms, 0), duration) / duration) * 100 : 0}%`;
+
+  const seek = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSeek || !duration) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width));
+    onSeek(fraction * duration);
+  };
+
+  return (
+    <div
+      className={cn('relative h-16 overflow-hidden rounded-md bg-muted', onSeek && 'cursor-pointer', className)}
+      onClick={seek}
+      role="slider"
+      aria-label="Waveform"
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(currentTime)}
+    >
+      {showSilences && waveform?.silences.map(silence => (
+        <div
+          key={silence.start}
+          className="absolute inset-y-0 bg-muted-foreground/15"
+          style={{ left: position(silence.start), width: `calc(${position(silence.end)} - ${position(silence.start)})` }}
+          title="Silence"
+        />
+      ))}
+      <canvas ref={canvasRef} className="absolute inset-0 h-full w-full text-primary" />
+      {children}
+      <div className="absolute inset-y-0 w-0.5 bg-foreground" style={{ left: position(currentTime) }} />
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import * as React from "react"
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/**
+ * `useState` that survives reloads. Values are JSON-encoded under `key`; a
+ * missing or unreadable entry falls back to `initialValue`.
+ */
+export function useLocalStorage<T>(key: string, initialValue: T) {
+  const [value, setValue] = React.useState<T>(() => {
+    try {
+      const stored = window.localStorage.getItem(key)
+      if (stored === null) return initialValue
+
+      const parsed = JSON.parse(stored)
+      // Settings objects gain fields over time; keep defaults for ones not stored yet
+      if (isPlainObject(initialValue) && isPlainObject(parsed)) {
+        return { ...initialValue, ...parsed }
+      }
+      return parsed
+    } catch {
+      return initialValue
+    }
+  })
+
+  React.useEffect(() => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value))
+    } catch {
+      // Storage can be full or disabled (private mode); keep the in-memory value
+    }
+  }, [key, value])
+
+  return [value, setValue] as const
+}
@@ -0,0 +1,12 @@
+import * as React from "react"
+
+import { deviceManager } from "@/lib/devices"
+
+/** The current input and output devices, kept up to date as devices come and go. */
+export function useMediaDevices() {
+  const [devices, setDevices] = React.useState<MediaDeviceInfo[]>(() => deviceManager.getDevices())
+
+  React.useEffect(() => deviceManager.on("changed", setDevices), [])
+
+  return devices
+}
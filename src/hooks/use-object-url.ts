@@ -0,0 +1,19 @@
+import * as React from "react"
+
+/** Object URL for `blob`, revoked when the blob changes or the component unmounts. */
+export function useObjectUrl(blob: Blob | null) {
+  const [url, setUrl] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!blob) {
+      setUrl(null)
+      return
+    }
+
+    const objectUrl = URL.createObjectURL(blob)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [blob])
+
+  return url
+}
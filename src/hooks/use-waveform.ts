@@ -0,0 +1,25 @@
+import * as React from "react"
+
+import { WaveformData, getWaveform } from "@/lib/waveform"
+
+/** The waveform of `recording`; null while it is decoded, or if it has no audio. */
+export function useWaveform(recording: Blob | null) {
+  const [waveform, setWaveform] = React.useState<WaveformData | null>(null)
+
+  React.useEffect(() => {
+    setWaveform(null)
+    if (!recording) return
+
+    let cancelled = false
+    getWaveform(recording)
+      .then(data => {
+        if (!cancelled) setWaveform(data)
+      })
+      .catch(error => console.error("Error computing waveform:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [recording])
+
+  return waveform
+}
@@ -0,0 +1,207 @@
+// Turns a recording into speech-model-ready audio: 16 kHz mono PCM, available
+// both as raw samples (for in-browser engines and waveform views) and as a WAV
+// file (for anything that wants an upload).
+
+import { findAudioTrack, parseWebM } from '@/lib/webm';
+
+export const SPEECH_SAMPLE_RATE = 16000;
+
+export interface ExtractedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+  /** Seconds. */
+  duration: number;
+  wav: Blob;
+}
+
+export class NoAudioTrackError extends Error {
+  constructor() {
+    super('The recording does not contain an audio track');
+    this.name = 'NoAudioTrackError';
+  }
+}
+
+// WebCodecs' audio half is not in the TypeScript DOM lib yet; this is the subset we use.
+interface AudioDataLike {
+  numberOfFrames: number;
+  numberOfChannels: number;
+  sampleRate: number;
+  copyTo(destination: Float32Array, options: { planeIndex: number; format: 'f32-planar' }): void;
+  close(): void;
+}
+
+interface AudioDecoderLike {
+  configure(config: { codec: string; sampleRate: number; numberOfChannels: number; description?: Uint8Array }): void;
+  decode(chunk: unknown): void;
+  flush(): Promise<void>;
+  close(): void;
+}
+
+interface WebCodecsAudioScope {
+  AudioDecoder?: new (init: {
+    output: (data: AudioDataLike) => void;
+    error: (error: Error) => void;
+  }) => AudioDecoderLike;
+  EncodedAudioChunk?: new (init: { type: 'key' | 'delta'; timestamp: number; data: Uint8Array }) => unknown;
+}
+
+export const concatSamples = (chunks: Float32Array[]): Float32Array => {
+  if (chunks.length === 1) return chunks[0];
+
+  const output = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, position);
+    position += chunk.length;
+  }
+  return output;
+};
+
+/** Encodes float samples (one array per channel) as a 16-bit PCM WAV file. */
+export const encodeWav = (samples: Float32Array | Float32Array[], sampleRate: number): Blob => {
+  const channels = Array.isArray(samples) ? samples : [samples];
+  const frames = channels[0]?.length ?? 0;
+  const blockAlign = channels.length * 2;
+  const dataSize = frames * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true); // bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  // Channels are interleaved frame by frame
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/** Downmixes and resamples with the browser's own (band-limited) resampler. */
+const toSpeechRate = async (buffer: AudioBuffer): Promise<Float32Array> => {
+  const frames = Math.ceil(buffer.duration * SPEECH_SAMPLE_RATE);
+  if (!frames) return new Float32Array(0);
+
+  const offline = new OfflineAudioContext(1, frames, SPEECH_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+/**
+ * Fallback for browsers whose decodeAudioData rejects MediaRecorder output
+ * (missing duration, video track first): demux the Opus frames ourselves and
+ * decode them with WebCodecs.
+ */
+const decodeWebMOpus = async (data: ArrayBuffer, context: BaseAudioContext): Promise<AudioBuffer> => {
+  const scope = window as unknown as WebCodecsAudioScope;
+  if (!scope.AudioDecoder || !scope.EncodedAudioChunk) {
+    throw new Error('This browser cannot decode the recording audio');
+  }
+
+  const file = parseWebM(data);
+  const track = findAudioTrack(file);
+  if (!track) throw new NoAudioTrackError();
+  if (track.codecId !== 'A_OPUS') {
+    throw new Error(`Unsupported audio codec ${track.codecId}`);
+  }
+
+  const sampleRate = track.samplingFrequency ?? 48000;
+  const numberOfChannels = track.channels ?? 1;
+  const planes: Float32Array[][] = Array.from({ length: numberOfChannels }, () => []);
+  let decodeError: Error | null = null;
+
+  const decoder = new scope.AudioDecoder({
+    output: (audioData) => {
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        const plane = new Float32Array(audioData.numberOfFrames);
+        audioData.copyTo(plane, { planeIndex: Math.min(channel, audioData.numberOfChannels - 1), format: 'f32-planar' });
+        planes[channel].push(plane);
+      }
+      audioData.close();
+    },
+    error: (error) => {
+      decodeError = error;
+    }
+  });
+
+  decoder.configure({ codec: 'opus', sampleRate, numberOfChannels, description: track.codecPrivate });
+  for (const frame of file.frames) {
+    if (frame.track !== track.number) continue;
+    decoder.decode(new scope.EncodedAudioChunk({
+      type: 'key',
+      timestamp: Math.round(frame.timestamp * 1000),
+      data: frame.data
+    }));
+  }
+  await decoder.flush();
+  decoder.close();
+  if (decodeError) throw decodeError;
+
+  const length = planes[0].reduce((total, chunk) => total + chunk.length, 0);
+  if (!length) throw new NoAudioTrackError();
+
+  const buffer = context.createBuffer(numberOfChannels, length, sampleRate);
+  planes.forEach((chunks, channel) => buffer.copyToChannel(concatSamples(chunks), channel));
+  return buffer;
+};
+
+/**
+ * Decodes the audio track of a recording (WebM/Opus, MP4/AAC, or plain audio)
+ * with its own channels. decodeAudioData resamples to `sampleRate`.
+ */
+export const decodeRecordingAudio = async (recording: Blob, sampleRate = SPEECH_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const data = await recording.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+
+  try {
+    return await context.decodeAudioData(data);
+  } catch (error) {
+    if (!recording.type.includes('webm')) {
+      throw error instanceof DOMException && error.name === 'EncodingError' ? new NoAudioTrackError() : error;
+    }
+    // decodeAudioData detached the first copy; reading the blob again beats holding two from the start
+    return decodeWebMOpus(await recording.arrayBuffer(), context);
+  }
+};
+
+/** Decodes the audio track of a recording and returns it as 16 kHz mono. */
+export const extractAudio = async (recording: Blob): Promise<ExtractedAudio> => {
+  const samples = await toSpeechRate(await decodeRecordingAudio(recording));
+  return {
+    samples,
+    sampleRate: SPEECH_SAMPLE_RATE,
+    duration: samples.length / SPEECH_SAMPLE_RATE,
+    wav: encodeWav(samples, SPEECH_SAMPLE_RATE)
+  };
+};
+
+/** The recording's audio as a WAV file at its original quality. */
+export const convertToWav = async (recording: Blob): Promise<Blob> => {
+  // Opus always decodes at 48 kHz, so this is the rate it was recorded at
+  const decoded = await decodeRecordingAudio(recording, 48000);
+  const channels = Array.from({ length: decoded.numberOfChannels }, (_, channel) => decoded.getChannelData(channel));
+  return encodeWav(channels, decoded.sampleRate);
+};
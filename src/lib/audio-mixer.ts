@@ -0,0 +1,147 @@
+// Mixes system audio and the microphone into the single audio track
+// MediaRecorder records. Recorders given two audio tracks keep only one of
+// them, so the sources are combined in a Web Audio graph instead:
+//   source -> gain -> analyser (level meter) -> mix -> destination
+//                                                  -> analyser (waveform)
+
+export type AudioSourceId = 'system' | 'microphone';
+
+export interface AudioChannelSettings {
+  /** 1 is unchanged; up to MAX_GAIN boosts quiet sources. */
+  gain: number;
+  muted: boolean;
+}
+
+export interface AudioMixerSettings {
+  system: AudioChannelSettings;
+  microphone: AudioChannelSettings;
+  noiseSuppression: boolean;
+  echoCancellation: boolean;
+}
+
+export const MAX_GAIN = 2;
+
+export const DEFAULT_AUDIO_MIXER_SETTINGS: AudioMixerSettings = {
+  system: { gain: 1, muted: false },
+  microphone: { gain: 1, muted: false },
+  noiseSuppression: true,
+  echoCancellation: true
+};
+
+export const AUDIO_SOURCE_LABELS: Record<AudioSourceId, string> = {
+  system: 'System audio',
+  microphone: 'Microphone'
+};
+
+export const microphoneConstraints = (settings: AudioMixerSettings): MediaTrackConstraints => ({
+  noiseSuppression: settings.noiseSuppression,
+  echoCancellation: settings.echoCancellation
+});
+
+interface Channel {
+  source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  analyser: AnalyserNode;
+  samples: Float32Array;
+}
+
+const peakOf = (analyser: AnalyserNode, samples: Float32Array): number => {
+  analyser.getFloatTimeDomainData(samples);
+  let peak = 0;
+  for (const sample of samples) {
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  return Math.min(1, peak);
+};
+
+export class AudioMixer {
+  private context = new AudioContext();
+  private destination = this.context.createMediaStreamDestination();
+  private channels = new Map<AudioSourceId, Channel>();
+  private mix = this.context.createGain();
+  private mixAnalyser = this.context.createAnalyser();
+  private mixSamples: Float32Array;
+
+  constructor(private settings: AudioMixerSettings) {
+    this.mixAnalyser.fftSize = 1024;
+    this.mixSamples = new Float32Array(this.mixAnalyser.fftSize);
+    this.mix.connect(this.destination);
+    this.mix.connect(this.mixAnalyser);
+  }
+
+  /** The mixed audio; silent until a source is added. */
+  get track(): MediaStreamTrack {
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  get hasSources(): boolean {
+    return this.channels.size > 0;
+  }
+
+  has(id: AudioSourceId): boolean {
+    return this.channels.has(id);
+  }
+
+  /** Routes `stream`'s audio into the mix; false if it has none, e.g. a window shared without audio. */
+  addSource(id: AudioSourceId, stream: MediaStream): boolean {
+    if (!stream.getAudioTracks().length) return false;
+    this.removeSource(id);
+
+    const source = this.context.createMediaStreamSource(stream);
+    const gain = this.context.createGain();
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(gain).connect(analyser).connect(this.mix);
+
+    const { gain: level, muted } = this.settings[id];
+    gain.gain.value = muted ? 0 : level;
+
+    this.channels.set(id, { source, gain, analyser, samples: new Float32Array(analyser.fftSize) });
+    // Contexts created after an await may start suspended
+    void this.context.resume();
+    return true;
+  }
+
+  removeSource(id: AudioSourceId) {
+    const channel = this.channels.get(id);
+    if (!channel) return;
+    channel.source.disconnect();
+    channel.gain.disconnect();
+    channel.analyser.disconnect();
+    this.channels.delete(id);
+  }
+
+  /** Gains and mutes apply immediately; the mic constraints only on the next capture. */
+  setSettings(settings: AudioMixerSettings) {
+    this.settings = settings;
+    this.channels.forEach((_, id) => this.applyChannel(id));
+  }
+
+  /** Peak level of what a source contributes to the mix, 0..1. */
+  getLevel(id: AudioSourceId): number {
+    const channel = this.channels.get(id);
+    return channel ? peakOf(channel.analyser, channel.samples) : 0;
+  }
+
+  /** Peak level of the mix itself, i.e. what is being recorded, 0..1. */
+  getMixLevel(): number {
+    return peakOf(this.mixAnalyser, this.mixSamples);
+  }
+
+  async close() {
+    [...this.channels.keys()].forEach(id => this.removeSource(id));
+    this.mix.disconnect();
+    this.track?.stop();
+    if (this.context.state !== 'closed') {
+      await this.context.close();
+    }
+  }
+
+  private applyChannel(id: AudioSourceId) {
+    const channel = this.channels.get(id);
+    if (!channel) return;
+    const { gain, muted } = this.settings[id];
+    // A short ramp avoids clicks while dragging a slider
+    channel.gain.gain.setTargetAtTime(muted ? 0 : gain, this.context.currentTime, 0.02);
+  }
+}
@@ -0,0 +1,70 @@
+// Capture sources and the getDisplayMedia hints that steer the browser's
+// picker towards each one. Hints are only hints: the user can still pick any
+// surface, so the shared surface is checked after capture.
+
+export type CaptureMode = 'screen' | 'window' | 'tab' | 'camera' | 'audio';
+
+export type DisplayCaptureMode = Exclude<CaptureMode, 'camera' | 'audio'>;
+
+type DisplaySurface = 'monitor' | 'window' | 'browser';
+
+// Chrome-only picker options that are not in the TypeScript DOM lib yet
+interface DisplayMediaStreamOptionsLike extends DisplayMediaStreamOptions {
+  preferCurrentTab?: boolean;
+  selfBrowserSurface?: 'include' | 'exclude';
+  surfaceSwitching?: 'include' | 'exclude';
+  systemAudio?: 'include' | 'exclude';
+}
+
+const DISPLAY_SURFACES: Record<DisplayCaptureMode, DisplaySurface> = {
+  screen: 'monitor',
+  window: 'window',
+  tab: 'browser'
+};
+
+export const CAPTURE_MODE_LABELS: Record<CaptureMode, string> = {
+  screen: 'Full Screen',
+  window: 'Application Window',
+  tab: 'Browser Tab',
+  camera: 'Camera Only',
+  audio: 'Audio Only'
+};
+
+export const isDisplayCapture = (mode: CaptureMode): mode is DisplayCaptureMode => mode !== 'camera' && mode !== 'audio';
+
+/** Recordings without a video track. */
+export const isAudioOnly = (mode: CaptureMode): boolean => mode === 'audio';
+
+export const displayMediaOptionsFor = (
+  mode: DisplayCaptureMode,
+  video: MediaTrackConstraints
+): DisplayMediaStreamOptions => {
+  const options: DisplayMediaStreamOptionsLike = {
+    video: { ...video, displaySurface: DISPLAY_SURFACES[mode] },
+    audio: true,
+    // Recording the tab that shows the recorder produces an endless mirror
+    selfBrowserSurface: 'exclude',
+    preferCurrentTab: false,
+    // Only whole screens can carry system audio; windows have none to give
+    systemAudio: mode === 'screen' ? 'include' : 'exclude',
+    // Lets the user move a tab recording to another tab without stopping
+    surfaceSwitching: mode === 'tab' ? 'include' : 'exclude'
+  };
+  return options;
+};
+
+/**
+ * Picker options for borrowing a tab's audio in an audio-only recording.
+ * Browsers only share audio alongside video, so a tiny, slow video track is
+ * requested and stopped straight away.
+ */
+export const tabAudioOptions = (): DisplayMediaStreamOptions => {
+  return displayMediaOptionsFor('tab', { width: { ideal: 320 }, frameRate: { ideal: 1 } });
+};
+
+/** The capture mode matching the surface the user actually shared, when the browser reports it. */
+export const getSharedMode = (stream: MediaStream): CaptureMode | null => {
+  const surface = stream.getVideoTracks()[0]?.getSettings().displaySurface;
+  const match = Object.entries(DISPLAY_SURFACES).find(([, displaySurface]) => displaySurface === surface);
+  return match ? (match[0] as CaptureMode) : null;
+};
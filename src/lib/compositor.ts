@@ -0,0 +1,239 @@
+// Picture-in-picture compositing: draws a display capture with the presenter's
+// camera on top into a canvas, and records the canvas instead of the display.
+// Only recordings that need it go through the canvas: those with an overlay, and those
+// whose sources may be swapped mid-recording. Others record the capture as is.
+
+export type OverlayShape = 'circle' | 'rounded';
+
+export type OverlayCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface OverlayLayout {
+  enabled: boolean;
+  shape: OverlayShape;
+  /** Overlay width as a fraction of the frame width. */
+  size: number;
+  /**
+   * Where the overlay sits within the frame's margins, 0..1 on each axis;
+   * 0,0 is the top-left corner and 1,1 the bottom-right, whatever the size.
+   */
+  x: number;
+  y: number;
+}
+
+export const OVERLAY_CORNERS: Record<OverlayCorner, Pick<OverlayLayout, 'x' | 'y'>> = {
+  'top-left': { x: 0, y: 0 },
+  'top-right': { x: 1, y: 0 },
+  'bottom-left': { x: 0, y: 1 },
+  'bottom-right': { x: 1, y: 1 }
+};
+
+export const OVERLAY_SIZE_RANGE = { min: 0.1, max: 0.45 };
+
+export const DEFAULT_OVERLAY_LAYOUT: OverlayLayout = {
+  enabled: false,
+  shape: 'circle',
+  size: 0.2,
+  ...OVERLAY_CORNERS['bottom-right']
+};
+
+/** Gap between the overlay and the frame edge, as a fraction of the frame width. */
+const OVERLAY_MARGIN = 0.025;
+
+// Rounded overlays keep the usual webcam shape rather than the camera's exact one
+const ROUNDED_ASPECT = 4 / 3;
+
+export interface OverlayRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** The overlay's box in a `width` x `height` frame. */
+export const overlayRect = (layout: OverlayLayout, width: number, height: number): OverlayRect => {
+  const margin = width * OVERLAY_MARGIN;
+  const boxWidth = width * clamp(layout.size, OVERLAY_SIZE_RANGE.min, OVERLAY_SIZE_RANGE.max);
+  const boxHeight = Math.min(layout.shape === 'circle' ? boxWidth : boxWidth / ROUNDED_ASPECT, height - 2 * margin);
+  return {
+    x: margin + clamp(layout.x, 0, 1) * Math.max(0, width - boxWidth - 2 * margin),
+    y: margin + clamp(layout.y, 0, 1) * Math.max(0, height - boxHeight - 2 * margin),
+    width: boxWidth,
+    height: boxHeight
+  };
+};
+
+/** The layout position that centres the overlay on a point in a `width` x `height` frame. */
+export const overlayPositionAt = (
+  layout: OverlayLayout,
+  point: { x: number; y: number },
+  width: number,
+  height: number
+): Pick<OverlayLayout, 'x' | 'y'> => {
+  const margin = width * OVERLAY_MARGIN;
+  const { width: boxWidth, height: boxHeight } = overlayRect(layout, width, height);
+  const travelX = width - boxWidth - 2 * margin;
+  const travelY = height - boxHeight - 2 * margin;
+  return {
+    x: travelX > 0 ? clamp((point.x - boxWidth / 2 - margin) / travelX, 0, 1) : 0,
+    y: travelY > 0 ? clamp((point.y - boxHeight / 2 - margin) / travelY, 0, 1) : 0
+  };
+};
+
+/**
+ * A steady frame clock. Timers and animation frames are throttled to a crawl
+ * while the page is hidden, which is exactly when screen recordings happen, but
+ * timers in a worker keep their pace.
+ */
+const createTicker = (intervalMs: number, onTick: () => void): (() => void) => {
+  try {
+    const source = `setInterval(() => postMessage(null), ${intervalMs});`;
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    worker.onmessage = onTick;
+    return () => worker.terminate();
+  } catch {
+    const timer = window.setInterval(onTick, intervalMs);
+    return () => window.clearInterval(timer);
+  }
+};
+
+const playStream = async (stream: MediaStream): Promise<HTMLVideoElement> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  await video.play();
+  return video;
+};
+
+export type CompositorSource = 'main' | 'overlay';
+
+/**
+ * Draws a main source (a display capture, or the camera on its own) and an
+ * optional camera overlay. Recording the canvas rather than the sources means
+ * either source can be swapped mid-recording, which MediaRecorder cannot do
+ * with its own tracks. Owns the source streams from `start()` on: `stop()`
+ * ends their tracks along with the composited one.
+ */
+export class VideoCompositor {
+  private canvas = document.createElement('canvas');
+  private context: CanvasRenderingContext2D | null = null;
+  private videos: Partial<Record<CompositorSource, HTMLVideoElement>> = {};
+  private output: MediaStream | null = null;
+  private stopTicker: (() => void) | null = null;
+
+  constructor(
+    private main: MediaStream,
+    private overlay: MediaStream | null,
+    private layout: OverlayLayout,
+    private readonly frameRate = 30
+  ) {}
+
+  /** The stream currently drawn as `source`. */
+  getSource(source: CompositorSource): MediaStream | null {
+    return source === 'main' ? this.main : this.overlay;
+  }
+
+  /** Starts drawing and resolves with the composited video, without audio. */
+  async start(): Promise<MediaStream> {
+    const context = this.canvas.getContext('2d');
+    if (!context) {
+      throw new Error('This browser cannot composite video');
+    }
+    this.context = context;
+
+    const [main, overlay] = await Promise.all([
+      playStream(this.main),
+      this.overlay ? playStream(this.overlay) : undefined
+    ]);
+    this.videos = { main, overlay };
+
+    this.draw();
+    this.output = this.canvas.captureStream(this.frameRate);
+    this.stopTicker = createTicker(1000 / this.frameRate, () => this.draw());
+    return this.output;
+  }
+
+  /** Moves, resizes or reshapes the overlay; applies from the next frame. */
+  setLayout(layout: OverlayLayout) {
+    this.layout = layout;
+  }
+
+  /** Swaps a source for a new stream, e.g. another camera, and stops the old one. */
+  async replaceSource(source: CompositorSource, stream: MediaStream) {
+    const video = await playStream(stream);
+    const previous = this.getSource(source);
+    if (source === 'main') {
+      this.main = stream;
+    } else {
+      this.overlay = stream;
+    }
+    const previousVideo = this.videos[source];
+    this.videos = { ...this.videos, [source]: video };
+
+    previous?.getTracks().forEach(track => track.stop());
+    if (previousVideo) previousVideo.srcObject = null;
+  }
+
+  stop() {
+    this.stopTicker?.();
+    this.stopTicker = null;
+    [this.output, this.main, this.overlay].forEach(stream => stream?.getTracks().forEach(track => track.stop()));
+    Object.values(this.videos).forEach(video => {
+      if (video) video.srcObject = null;
+    });
+  }
+
+  private draw() {
+    const { context, canvas } = this;
+    const { main: mainVideo, overlay: cameraVideo } = this.videos;
+    if (!context || !mainVideo?.videoWidth) return;
+
+    // Follow the source's size, which changes when a shared window is resized
+    if (canvas.width !== mainVideo.videoWidth || canvas.height !== mainVideo.videoHeight) {
+      canvas.width = mainVideo.videoWidth;
+      canvas.height = mainVideo.videoHeight;
+    }
+    context.drawImage(mainVideo, 0, 0, canvas.width, canvas.height);
+
+    if (!this.layout.enabled || !cameraVideo?.videoWidth) return;
+
+    const box = overlayRect(this.layout, canvas.width, canvas.height);
+    // Crop the camera to the overlay's aspect instead of squashing it
+    const scale = Math.max(box.width / cameraVideo.videoWidth, box.height / cameraVideo.videoHeight);
+    const sourceWidth = box.width / scale;
+    const sourceHeight = box.height / scale;
+
+    context.save();
+    context.beginPath();
+    if (this.layout.shape === 'circle') {
+      const radius = Math.min(box.width, box.height) / 2;
+      context.arc(box.x + box.width / 2, box.y + box.height / 2, radius, 0, Math.PI * 2);
+    } else {
+      context.roundRect(box.x, box.y, box.width, box.height, box.width * 0.08);
+    }
+    context.clip();
+    context.drawImage(
+      cameraVideo,
+      (cameraVideo.videoWidth - sourceWidth) / 2,
+      (cameraVideo.videoHeight - sourceHeight) / 2,
+      sourceWidth,
+      sourceHeight,
+      box.x,
+      box.y,
+      box.width,
+      box.height
+    );
+    context.restore();
+
+    // A thin ring keeps the overlay readable on busy backgrounds
+    context.save();
+    context.lineWidth = Math.max(2, canvas.width * 0.002);
+    context.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+    context.stroke();
+    context.restore();
+  }
+}
@@ -0,0 +1,80 @@
+// The app's IndexedDB database. Every store is created here so that modules
+// sharing the database agree on the schema version.
+
+export const DB_NAME = 'record-and-connect';
+const DB_VERSION = 2;
+
+export const STORES = {
+  recordings: 'recordings',
+  recordingBlobs: 'recording-blobs',
+  /** Recordings in progress, so a crashed tab can be recovered (v2). */
+  sessions: 'recording-sessions',
+  sessionChunks: 'recording-session-chunks'
+} as const;
+
+export class DatabaseUnavailableError extends Error {
+  constructor() {
+    super('This browser does not support IndexedDB, so recordings cannot be saved');
+    this.name = 'DatabaseUnavailableError';
+  }
+}
+
+/** Resolves an IDBRequest as a promise. */
+export const request = <T>(req: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+/** Resolves once a transaction has been committed. */
+export const committed = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+};
+
+let database: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (database) return database;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new DatabaseUnavailableError());
+  }
+
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    if (!db.objectStoreNames.contains(STORES.recordings)) {
+      db.createObjectStore(STORES.recordings, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(STORES.recordingBlobs)) {
+      db.createObjectStore(STORES.recordingBlobs);
+    }
+    if (!db.objectStoreNames.contains(STORES.sessions)) {
+      db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(STORES.sessionChunks)) {
+      // Keyed by [sessionId, index] so a session's chunks read back in order
+      db.createObjectStore(STORES.sessionChunks);
+    }
+  };
+
+  database = request(req)
+    .then(db => {
+      // Another tab upgrading the schema needs us to let go
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      return db;
+    })
+    .catch(error => {
+      // Let the next call try again rather than caching the failure
+      database = null;
+      throw error;
+    });
+  return database;
+};
@@ -0,0 +1,97 @@
+// Input and output device selection. Device lists change whenever a headset or
+// webcam is plugged in or out, so the manager re-enumerates on `devicechange`
+// and lets the studios react, e.g. by falling back to the default microphone.
+
+import { Emitter } from '@/lib/emitter';
+
+export type DeviceKind = 'audioinput' | 'videoinput' | 'audiooutput';
+
+/** Chosen device ids by kind; an empty id means the system default. */
+export type DevicePreferences = Record<DeviceKind, string>;
+
+export const DEFAULT_DEVICE_PREFERENCES: DevicePreferences = {
+  audioinput: '',
+  videoinput: '',
+  audiooutput: ''
+};
+
+export const DEVICE_KIND_LABELS: Record<DeviceKind, string> = {
+  audioinput: 'Microphone',
+  videoinput: 'Camera',
+  audiooutput: 'Speakers'
+};
+
+export type DeviceManagerEvents = {
+  changed: [devices: MediaDeviceInfo[]];
+};
+
+/** Where HTMLMediaElement.setSinkId exists, so playback can be routed to a chosen output. */
+export const supportsOutputSelection = (): boolean => {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+};
+
+/**
+ * Constraint for a chosen device. `ideal` rather than `exact`, so a remembered
+ * device that has since been unplugged falls back to another one instead of failing.
+ */
+export const deviceConstraint = (deviceId: string): Pick<MediaTrackConstraints, 'deviceId'> => {
+  return deviceId ? { deviceId: { ideal: deviceId } } : {};
+};
+
+/** Label for a device; browsers leave labels blank until a capture permission is granted. */
+export const deviceLabel = (device: MediaDeviceInfo, index: number): string => {
+  return device.label || `${DEVICE_KIND_LABELS[device.kind]} ${index + 1}`;
+};
+
+/** Whether `track` is still usable, i.e. its device has not gone away. */
+export const isTrackLive = (track: MediaStreamTrack | undefined, devices: MediaDeviceInfo[]): boolean => {
+  if (!track || track.readyState === 'ended') return false;
+  const { deviceId } = track.getSettings();
+  const kind: DeviceKind = track.kind === 'audio' ? 'audioinput' : 'videoinput';
+  const known = devices.filter(device => device.kind === kind);
+  // Nothing to check against without an id, or before the list has loaded
+  return !deviceId || !known.length || known.some(device => device.deviceId === deviceId);
+};
+
+/** Routes a media element's playback to `deviceId`, where the browser allows it. */
+export const setAudioOutput = async (element: HTMLMediaElement, deviceId: string) => {
+  if (!supportsOutputSelection() || element.sinkId === deviceId) return;
+  await element.setSinkId(deviceId);
+};
+
+export class DeviceManager {
+  private devices: MediaDeviceInfo[] = [];
+  private events = new Emitter<DeviceManagerEvents>();
+  private listening = false;
+
+  on<K extends keyof DeviceManagerEvents>(event: K, handler: (...args: DeviceManagerEvents[K]) => void): () => void {
+    this.listen();
+    return this.events.on(event, handler);
+  }
+
+  getDevices(kind?: DeviceKind): MediaDeviceInfo[] {
+    return kind ? this.devices.filter(device => device.kind === kind) : this.devices;
+  }
+
+  /** Re-reads the device list; call after a capture permission is granted to get labels. */
+  async refresh(): Promise<MediaDeviceInfo[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return this.devices;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    // Before any permission some browsers list placeholder entries without ids
+    this.devices = devices.filter(device => device.deviceId);
+    this.events.emit('changed', this.devices);
+    return this.devices;
+  }
+
+  private listen() {
+    if (this.listening || !navigator.mediaDevices) return;
+    this.listening = true;
+    navigator.mediaDevices.addEventListener('devicechange', () => {
+      this.refresh().catch(error => console.error('Error listing media devices:', error));
+    });
+    this.refresh().catch(error => console.error('Error listing media devices:', error));
+  }
+}
+
+/** The app-wide device list, shared by both studios. */
+export const deviceManager = new DeviceManager();
@@ -0,0 +1,114 @@
+// Edits the recordings WebCodecs cannot: MP4 from Safari or the MP4 recording
+// formats, and audio-only WAV. ffmpeg.wasm trims each kept range, joins them
+// and re-encodes the result into the recording's own container. It shares the
+// converter's worker, so its ~30 MB core is only loaded on first use.
+
+import { extensionForMimeType } from '@/lib/recording-formats';
+import { RecordingStreams, TranscodeCancelledError, probeRecording, runFFmpeg } from '@/lib/transcode';
+import { editedDuration } from './ranges';
+import { RecordingEditor, RenderOptions, TimeRange, UnsupportedRecordingError } from './types';
+
+export const isFFmpegEditingSupported = (): boolean => {
+  return typeof WebAssembly !== 'undefined' && typeof Worker !== 'undefined';
+};
+
+// Encoders per container; ffmpeg picks the muxer from the output's extension
+const ENCODER_ARGS: Record<string, { video: string[]; audio: string[] }> = {
+  mp4: {
+    // H.264 players expect 4:2:0; the filter graph keeps the dimensions even
+    video: ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p'],
+    audio: ['-c:a', 'aac', '-b:a', '128k']
+  },
+  webm: {
+    video: ['-c:v', 'libvpx', '-crf', '10', '-b:v', '2M', '-deadline', 'realtime', '-cpu-used', '8'],
+    audio: ['-c:a', 'libopus', '-b:a', '128k']
+  },
+  ogg: { video: [], audio: ['-c:a', 'libopus', '-b:a', '128k'] },
+  mp3: { video: [], audio: ['-c:a', 'libmp3lame', '-b:a', '128k'] },
+  wav: { video: [], audio: ['-c:a', 'pcm_s16le'] }
+};
+
+const encoderArgs = (extension: string) => {
+  switch (extension) {
+    case 'm4a':
+    case 'mov':
+      return ENCODER_ARGS.mp4;
+    case 'mkv':
+      return ENCODER_ARGS.webm;
+    default:
+      return ENCODER_ARGS[extension];
+  }
+};
+
+/** Seconds, as ffmpeg's filters take them. */
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+/** A filter graph that trims every kept range out of each stream and concatenates them into `[v]` and `[a]`. */
+const filterGraph = (ranges: TimeRange[], streams: RecordingStreams, evenSize: boolean): string => {
+  const filters: string[] = [];
+  const segments: string[] = [];
+
+  ranges.forEach((range, index) => {
+    const bounds = `start=${seconds(range.start)}:end=${seconds(range.end)}`;
+    if (streams.video) {
+      filters.push(`[0:v]trim=${bounds},setpts=PTS-STARTPTS[v${index}]`);
+      segments.push(`[v${index}]`);
+    }
+    if (streams.audio) {
+      filters.push(`[0:a]atrim=${bounds},asetpts=PTS-STARTPTS[a${index}]`);
+      segments.push(`[a${index}]`);
+    }
+  });
+
+  const outputs = `${streams.video ? (evenSize ? '[joined]' : '[v]') : ''}${streams.audio ? '[a]' : ''}`;
+  filters.push(`${segments.join('')}concat=n=${ranges.length}:v=${Number(streams.video)}:a=${Number(streams.audio)}${outputs}`);
+  if (streams.video && evenSize) filters.push('[joined]scale=trunc(iw/2)*2:trunc(ih/2)*2[v]');
+  return filters.join(';');
+};
+
+export class FFmpegEditor implements RecordingEditor {
+  readonly id = 'ffmpeg' as const;
+
+  async render(recording: Blob, ranges: TimeRange[], options: RenderOptions = {}): Promise<Blob> {
+    const { signal, onProgress, onLoading } = options;
+    if (!ranges.length) throw new Error('The edit removes the whole recording');
+
+    const mimeType = recording.type.split(';')[0].trim() || 'video/webm';
+    const extension = extensionForMimeType(mimeType);
+    const encoders = encoderArgs(extension);
+    if (!encoders) throw new UnsupportedRecordingError(`${extension.toUpperCase()} recordings cannot be edited`);
+
+    try {
+      const streams = await probeRecording(recording, { signal, onLoading });
+      if (!streams.video && !streams.audio) {
+        throw new UnsupportedRecordingError('The recording has no audio or video to edit');
+      }
+      if (streams.video && !encoders.video.length) {
+        throw new UnsupportedRecordingError(`Video in ${extension.toUpperCase()} recordings cannot be edited`);
+      }
+
+      const evenSize = encoders === ENCODER_ARGS.mp4;
+      return await runFFmpeg(
+        recording,
+        {
+          args: (input, output) => [
+            '-i', input,
+            '-filter_complex', filterGraph(ranges, streams, evenSize),
+            ...(streams.video ? ['-map', '[v]', ...encoders.video] : []),
+            ...(streams.audio ? ['-map', '[a]', ...encoders.audio] : []),
+            ...(evenSize ? ['-movflags', '+faststart'] : []),
+            output
+          ],
+          extension,
+          mimeType,
+          failure: 'ffmpeg could not edit the recording'
+        },
+        { duration: editedDuration(ranges) / 1000, signal, onProgress }
+      );
+    } catch (error) {
+      // Editors report cancelling the way WebCodecs does
+      if (error instanceof TranscodeCancelledError) throw new DOMException('Export cancelled', 'AbortError');
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { RecordingEditor, RecordingEditorId } from './types';
+import { FFmpegEditor, isFFmpegEditingSupported } from './ffmpeg';
+import { WebCodecsEditor, isWebCodecsEditingSupported } from './webcodecs';
+
+export * from './types';
+export * from './ranges';
+
+export interface RecordingEditorInfo {
+  id: RecordingEditorId;
+  label: string;
+  description: string;
+  isSupported: () => boolean;
+}
+
+export const RECORDING_EDITORS: RecordingEditorInfo[] = [
+  {
+    id: 'webcodecs',
+    label: 'WebCodecs',
+    description: 'Re-encodes the video with the codecs built into the browser. WebM recordings only.',
+    isSupported: isWebCodecsEditingSupported
+  },
+  {
+    id: 'ffmpeg',
+    label: 'ffmpeg.wasm',
+    description: 'Re-encodes any recording, including MP4 and WAV. Slower, and loads about 30 MB on first use.',
+    isSupported: isFFmpegEditingSupported
+  }
+];
+
+export const createRecordingEditor = (id: RecordingEditorId = 'webcodecs'): RecordingEditor => {
+  switch (id) {
+    case 'ffmpeg':
+      return new FFmpegEditor();
+    case 'webcodecs':
+    default:
+      return new WebCodecsEditor();
+  }
+};
+
+/** WebCodecs for WebM where the browser has it, since it is faster; ffmpeg.wasm for everything else. */
+export const editorForRecording = (recording: Blob): RecordingEditor => {
+  const isWebM = /^(video|audio)\/webm\b/i.test(recording.type);
+  return createRecordingEditor(isWebM && isWebCodecsEditingSupported() ? 'webcodecs' : 'ffmpeg');
+};
@@ -0,0 +1,86 @@
+// Time bookkeeping for edits: which parts of the original survive, and where
+// an original timestamp lands in the edited recording.
+
+import type { MeetingMinutes, MinutesItem } from '@/lib/minutes';
+import type { Transcript, TranscriptSegment } from '@/lib/transcript';
+import type { EditDecision, TimeRange } from './types';
+
+// Slivers shorter than a frame are not worth a join
+const MIN_RANGE_MS = 40;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** The parts of a `duration` ms recording that an edit keeps, in order. */
+export const keptRanges = (edit: EditDecision, duration: number): TimeRange[] => {
+  const start = clamp(edit.inPoint, 0, duration);
+  const end = clamp(edit.outPoint, start, duration);
+
+  let ranges: TimeRange[] = [{ start, end }];
+  for (const cut of edit.cuts) {
+    ranges = ranges.flatMap(range => {
+      if (cut.end <= range.start || cut.start >= range.end) return [range];
+      return [
+        { start: range.start, end: Math.max(range.start, cut.start) },
+        { start: Math.min(range.end, cut.end), end: range.end }
+      ];
+    });
+  }
+  return ranges.filter(range => range.end - range.start >= MIN_RANGE_MS);
+};
+
+export const editedDuration = (ranges: TimeRange[]): number => {
+  return ranges.reduce((total, range) => total + range.end - range.start, 0);
+};
+
+/** Where `time` lands in the edited recording; times inside a removed part collapse onto the join. */
+export const toEditedTime = (time: number, ranges: TimeRange[]): number => {
+  let offset = 0;
+  for (const range of ranges) {
+    if (time <= range.start) return offset;
+    if (time < range.end) return offset + time - range.start;
+    offset += range.end - range.start;
+  }
+  return offset;
+};
+
+/** Like toEditedTime, but null for times that were removed. */
+export const toEditedTimeIfKept = (time: number, ranges: TimeRange[]): number | null => {
+  return ranges.some(range => time >= range.start && time < range.end) ? toEditedTime(time, ranges) : null;
+};
+
+const shiftSegment = (segment: TranscriptSegment, ranges: TimeRange[]): TranscriptSegment | null => {
+  const start = toEditedTime(segment.start, ranges);
+  const end = toEditedTime(segment.end, ranges);
+  if (end <= start) return null;
+  if (!segment.words?.length) return { ...segment, start, end };
+
+  const words = segment.words
+    .map(word => ({ ...word, start: toEditedTime(word.start, ranges), end: toEditedTime(word.end, ranges) }))
+    .filter(word => word.end > word.start);
+  if (!words.length) return null;
+
+  // Cut words leave the text too
+  const text = words.length === segment.words.length ? segment.text : words.map(word => word.text.trim()).join(' ');
+  return { ...segment, start, end, text, words };
+};
+
+/** The transcript of the edited recording: removed speech dropped, the rest moved up. */
+export const shiftTranscript = (transcript: Transcript, ranges: TimeRange[]): Transcript => ({
+  ...transcript,
+  segments: transcript.segments
+    .map(segment => shiftSegment(segment, ranges))
+    .filter((segment): segment is TranscriptSegment => segment !== null)
+});
+
+const shiftItem = <T extends MinutesItem>(item: T, ranges: TimeRange[]): T => {
+  if (item.timestamp === undefined) return item;
+  // The item stays, but its moment is gone
+  return { ...item, timestamp: toEditedTimeIfKept(item.timestamp, ranges) ?? undefined };
+};
+
+export const shiftMinutes = (minutes: MeetingMinutes, ranges: TimeRange[]): MeetingMinutes => ({
+  ...minutes,
+  decisions: minutes.decisions.map(item => shiftItem(item, ranges)),
+  actionItems: minutes.actionItems.map(item => shiftItem(item, ranges)),
+  openQuestions: minutes.openQuestions.map(item => shiftItem(item, ranges))
+});
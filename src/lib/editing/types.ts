@@ -0,0 +1,36 @@
+/** Milliseconds from the start of the recording. */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/** What to keep of a recording: everything between the in and out points, minus the cuts. */
+export interface EditDecision {
+  inPoint: number;
+  outPoint: number;
+  cuts: TimeRange[];
+}
+
+export type RecordingEditorId = 'webcodecs' | 'ffmpeg';
+
+export interface RenderOptions {
+  signal?: AbortSignal;
+  /** 0..1. */
+  onProgress?: (progress: number) => void;
+  /** Called when the editor has to download its code first. */
+  onLoading?: () => void;
+}
+
+/** Renders an edited copy of a recording. */
+export interface RecordingEditor {
+  readonly id: RecordingEditorId;
+  /** Joins the parts of `recording` inside `ranges` (sorted, non-overlapping) into a new file. */
+  render(recording: Blob, ranges: TimeRange[], options?: RenderOptions): Promise<Blob>;
+}
+
+export class UnsupportedRecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedRecordingError';
+  }
+}
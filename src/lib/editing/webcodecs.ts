@@ -0,0 +1,265 @@
+// Edits WebM recordings with WebCodecs. Video is decoded and re-encoded, since
+// a cut can land between keyframes and every join needs a fresh one; audio
+// (Opus) frames are short and self-contained, so they are copied across as is.
+
+import { findAudioTrack, parseWebM, WebMFile, WebMFrame, WebMTrack } from '@/lib/webm';
+import { writeWebM, WebMWriterFrame, WebMWriterTrack } from '@/lib/webm-writer';
+import { editedDuration, toEditedTimeIfKept } from './ranges';
+import { RecordingEditor, RenderOptions, TimeRange, UnsupportedRecordingError } from './types';
+
+const TRACK_TYPE_VIDEO = 1;
+
+// WebM codec IDs to the WebCodecs codec strings that decode them
+const DECODER_CODECS: Record<string, string> = {
+  V_VP8: 'vp8',
+  V_VP9: 'vp09.00.10.08',
+  V_AV1: 'av01.0.08M.08',
+  'V_MPEG4/ISO/AVC': 'avc1.42E01F'
+};
+
+const ENCODER_CODECS = [
+  { codec: 'vp09.00.10.08', codecId: 'V_VP9' },
+  { codec: 'vp8', codecId: 'V_VP8' }
+];
+
+const KEYFRAME_INTERVAL_US = 2_000_000;
+const MIN_BITRATE = 1_000_000;
+const MAX_BITRATE = 20_000_000;
+// Frames in flight per codec; decoded frames hold GPU memory until encoded
+const MAX_QUEUE = 8;
+
+export const isWebCodecsEditingSupported = (): boolean => {
+  return typeof VideoDecoder !== 'undefined' && typeof VideoEncoder !== 'undefined';
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+};
+
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/** Whole keyframe groups that overlap a kept range; anything else need not be decoded. */
+const framesToDecode = (frames: WebMFrame[], ranges: TimeRange[]): WebMFrame[] => {
+  const selected: WebMFrame[] = [];
+  let group: WebMFrame[] = [];
+  const closeGroup = (end: number) => {
+    if (group.length && ranges.some(range => range.start < end && range.end > group[0].timestamp)) {
+      selected.push(...group);
+    }
+    group = [];
+  };
+
+  for (const frame of frames) {
+    if (frame.keyframe) closeGroup(frame.timestamp);
+    // Deltas before the first keyframe cannot be decoded
+    if (frame.keyframe || group.length) group.push(frame);
+  }
+  closeGroup(Infinity);
+  return selected;
+};
+
+const chooseEncoder = async (width: number, height: number, bitrate: number) => {
+  for (const candidate of ENCODER_CODECS) {
+    const config: VideoEncoderConfig = { codec: candidate.codec, width, height, bitrate };
+    const { supported } = await VideoEncoder.isConfigSupported(config).catch(() => ({ supported: false }));
+    if (supported) return candidate;
+  }
+  throw new UnsupportedRecordingError('This browser cannot encode VP8 or VP9 video');
+};
+
+export class WebCodecsEditor implements RecordingEditor {
+  readonly id = 'webcodecs' as const;
+
+  async render(recording: Blob, ranges: TimeRange[], options: RenderOptions = {}): Promise<Blob> {
+    const { signal, onProgress } = options;
+    if (!ranges.length) throw new Error('The edit removes the whole recording');
+
+    let file: WebMFile;
+    try {
+      file = parseWebM(await recording.arrayBuffer());
+    } catch (error) {
+      console.error('Error reading recording for editing:', error);
+      throw new UnsupportedRecordingError('Only WebM recordings can be edited in the browser');
+    }
+    throwIfAborted(signal);
+
+    const videoTrack = file.tracks.find(track => track.type === TRACK_TYPE_VIDEO);
+    const audioTrack = findAudioTrack(file);
+    if (!videoTrack && !audioTrack) {
+      throw new UnsupportedRecordingError('The recording has no audio or video to edit');
+    }
+
+    const tracks: WebMWriterTrack[] = [];
+    const frames: WebMWriterFrame[] = [];
+
+    if (videoTrack) {
+      const video = await this.reencodeVideo(file, videoTrack, ranges, recording.size, options);
+      tracks.push(video.track);
+      frames.push(...video.frames);
+    }
+
+    if (audioTrack) {
+      const number = tracks.length + 1;
+      tracks.push({
+        number,
+        kind: 'audio',
+        codecId: audioTrack.codecId,
+        codecPrivate: audioTrack.codecPrivate,
+        samplingFrequency: audioTrack.samplingFrequency,
+        channels: audioTrack.channels
+      });
+      for (const frame of file.frames) {
+        if (frame.track !== audioTrack.number) continue;
+        const timestamp = toEditedTimeIfKept(frame.timestamp, ranges);
+        if (timestamp !== null) frames.push({ track: number, timestamp, keyframe: true, data: frame.data });
+      }
+    }
+
+    // Interleave the tracks; the sort is stable, so each track keeps its own order
+    frames.sort((a, b) => a.timestamp - b.timestamp);
+    onProgress?.(1);
+    return writeWebM(tracks, frames, editedDuration(ranges), recording.type || 'video/webm');
+  }
+
+  private async reencodeVideo(
+    file: WebMFile,
+    track: WebMTrack,
+    ranges: TimeRange[],
+    fileSize: number,
+    { signal, onProgress }: RenderOptions
+  ): Promise<{ track: WebMWriterTrack; frames: WebMWriterFrame[] }> {
+    const decoderCodec = DECODER_CODECS[track.codecId];
+    if (!decoderCodec || !isWebCodecsEditingSupported()) {
+      throw new UnsupportedRecordingError(`This browser cannot edit ${track.codecId || 'this'} video`);
+    }
+
+    const sourceFrames = framesToDecode(file.frames.filter(frame => frame.track === track.number), ranges);
+    if (!sourceFrames.length) throw new UnsupportedRecordingError('The recording has no decodable video');
+
+    // Keep roughly the source quality: its average bitrate, within sane bounds
+    const sourceDuration = file.duration ?? file.frames[file.frames.length - 1].timestamp;
+    const bitrate = Math.min(MAX_BITRATE, Math.max(MIN_BITRATE, (fileSize * 8) / Math.max(1, sourceDuration / 1000)));
+
+    const output: WebMWriterFrame[] = [];
+    let failure: Error | null = null;
+    let encoder: VideoEncoder | null = null;
+    let encoderCodec: { codec: string; codecId: string } | null = null;
+    let width = 0;
+    let height = 0;
+    let canvas: OffscreenCanvas | null = null;
+    let lastKeyframe = -Infinity;
+    let lastRange = -1;
+    let decoded = 0;
+
+    const fail = (error: Error) => {
+      failure ??= error;
+    };
+
+    const encodeFrame = (frame: VideoFrame) => {
+      decoded++;
+      onProgress?.(decoded / sourceFrames.length);
+
+      const edited = toEditedTimeIfKept(frame.timestamp / 1000, ranges);
+      if (edited === null || !encoder || failure || signal?.aborted) {
+        frame.close();
+        return;
+      }
+
+      // Every join starts on a keyframe, so the cut never shows stale pixels
+      const rangeIndex = ranges.findIndex(range => frame.timestamp / 1000 < range.end);
+      const timestamp = Math.round(edited * 1000);
+      const keyFrame = rangeIndex !== lastRange || timestamp - lastKeyframe >= KEYFRAME_INTERVAL_US;
+      lastRange = rangeIndex;
+      if (keyFrame) lastKeyframe = timestamp;
+
+      // A shared window can change size mid-recording; the encoder cannot
+      let input: VideoFrame;
+      if (frame.displayWidth !== width || frame.displayHeight !== height) {
+        canvas ??= new OffscreenCanvas(width, height);
+        const context = canvas.getContext('2d');
+        context.fillStyle = 'black';
+        context.fillRect(0, 0, width, height);
+        const scale = Math.min(width / frame.displayWidth, height / frame.displayHeight);
+        const drawWidth = frame.displayWidth * scale;
+        const drawHeight = frame.displayHeight * scale;
+        context.drawImage(frame, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+        input = new VideoFrame(canvas, { timestamp });
+      } else {
+        input = new VideoFrame(frame, { timestamp });
+      }
+      frame.close();
+
+      encoder.encode(input, { keyFrame });
+      input.close();
+    };
+
+    const pending: VideoFrame[] = [];
+    const decoder = new VideoDecoder({
+      output: frame => {
+        // The encoder is configured once the first frame gives us the size
+        if (!encoder) pending.push(frame);
+        else encodeFrame(frame);
+      },
+      error: fail
+    });
+
+    const startEncoder = async () => {
+      if (encoder || !pending.length) return;
+      // Even dimensions keep 4:2:0 encoders happy
+      width = pending[0].displayWidth & ~1;
+      height = pending[0].displayHeight & ~1;
+      encoderCodec = await chooseEncoder(width, height, bitrate);
+      encoder = new VideoEncoder({
+        output: chunk => {
+          const data = new Uint8Array(chunk.byteLength);
+          chunk.copyTo(data);
+          output.push({ track: 1, timestamp: chunk.timestamp / 1000, keyframe: chunk.type === 'key', data });
+        },
+        error: fail
+      });
+      encoder.configure({ codec: encoderCodec.codec, width, height, bitrate, latencyMode: 'quality' });
+      pending.splice(0).forEach(encodeFrame);
+    };
+
+    try {
+      decoder.configure({
+        codec: decoderCodec,
+        description: track.codecId === 'V_MPEG4/ISO/AVC' ? track.codecPrivate : undefined
+      });
+
+      for (const frame of sourceFrames) {
+        throwIfAborted(signal);
+        if (failure) throw failure;
+
+        decoder.decode(new EncodedVideoChunk({
+          type: frame.keyframe ? 'key' : 'delta',
+          timestamp: Math.round(frame.timestamp * 1000),
+          data: frame.data
+        }));
+
+        await startEncoder();
+
+        while (decoder.decodeQueueSize > MAX_QUEUE || (encoder?.encodeQueueSize ?? 0) > MAX_QUEUE) {
+          await nextTask();
+          throwIfAborted(signal);
+        }
+      }
+
+      await decoder.flush();
+      await startEncoder();
+      if (!encoder) throw failure ?? new UnsupportedRecordingError('No video frames could be decoded');
+      await encoder.flush();
+      throwIfAborted(signal);
+      if (failure) throw failure;
+    } finally {
+      pending.forEach(frame => frame.close());
+      if (decoder.state !== 'closed') decoder.close();
+      if (encoder && encoder.state !== 'closed') encoder.close();
+    }
+
+    return {
+      track: { number: 1, kind: 'video', codecId: encoderCodec.codecId, width, height },
+      frames: output
+    };
+  }
+}
@@ -0,0 +1,25 @@
+// Small typed event emitter shared by the call and recording services.
+// Event maps list each event's argument tuple, e.g. `{ 'peer-left': [peerId: string] }`.
+
+export type EventMap = Record<string, unknown[]>;
+
+export class Emitter<Events extends EventMap> {
+  private handlers: { [K in keyof Events]?: Set<(...args: Events[K]) => void> } = {};
+
+  on<K extends keyof Events>(event: K, handler: (...args: Events[K]) => void): () => void {
+    const handlers = this.handlers[event] ?? new Set();
+    this.handlers[event] = handlers;
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  emit<K extends keyof Events>(event: K, ...args: Events[K]) {
+    this.handlers[event]?.forEach(handler => handler(...args));
+  }
+
+  clear() {
+    this.handlers = {};
+  }
+}
@@ -0,0 +1,61 @@
+// File exports for processed recordings. Builders only produce files for real
+// artifacts and throw NothingToExportError otherwise, so the UI can show an
+// empty state instead of downloading a placeholder.
+
+import { MeetingMinutes, isMinutesEmpty, minutesToText } from '@/lib/minutes';
+import { Transcript, isTranscriptEmpty, transcriptToText } from '@/lib/transcript';
+
+export class NothingToExportError extends Error {
+  constructor(message = 'There is nothing to export yet') {
+    super(message);
+    this.name = 'NothingToExportError';
+  }
+}
+
+/** Saves a blob through a temporary anchor, the only download path browsers allow without a prompt. */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** `prefix-2024-05-01T10-30-00`; colons are not allowed in Windows file names. */
+export const timestampedName = (prefix: string, date = new Date()): string => {
+  return `${prefix}-${date.toISOString().slice(0, 19).replace(/:/g, '-')}`;
+};
+
+const header = (title: string, generatedAt: Date) => `${title}
+Generated on: ${generatedAt.toLocaleString()}`;
+
+export const buildTranscriptExport = (transcript: Transcript | null, generatedAt = new Date()): Blob => {
+  if (isTranscriptEmpty(transcript)) {
+    throw new NothingToExportError('The transcript is empty');
+  }
+
+  const content = `${header('Meeting Transcript', generatedAt)}
+
+${transcriptToText(transcript, { timestamps: true })}
+`;
+  return new Blob([content], { type: 'text/plain' });
+};
+
+export const buildMinutesExport = (minutes: MeetingMinutes | null, generatedAt = new Date()): Blob => {
+  if (isMinutesEmpty(minutes)) {
+    throw new NothingToExportError('No meeting minutes were found');
+  }
+
+  const content = `${header('Meeting Minutes', generatedAt)}
+
+${minutesToText(minutes)}
+
+---
+Generated automatically from recording transcript.
+`;
+  return new Blob([content], { type: 'text/plain' });
+};
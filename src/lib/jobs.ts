@@ -0,0 +1,168 @@
+// Sequential queue for post-recording work (transcription, minutes, ...).
+// Jobs run one at a time because the heavy ones (Whisper in WebAssembly) would
+// only slow each other down, and each job can be cancelled or retried.
+
+import { Emitter } from '@/lib/emitter';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  message?: string;
+  /** 0..1 when the job can tell how far along it is. */
+  progress?: number;
+}
+
+export interface Job {
+  id: string;
+  /** What the job does, e.g. `transcription`; lets callers find their jobs. */
+  kind: string;
+  label: string;
+  status: JobStatus;
+  progress?: JobProgress;
+  error?: string;
+  /** How many times the job has started, including retries. */
+  attempts: number;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  attempt: number;
+  reportProgress: (progress: JobProgress) => void;
+}
+
+export type JobRunner = (context: JobContext) => Promise<void>;
+
+export type JobQueueEvents = {
+  changed: [jobs: Job[]];
+  settled: [job: Job];
+};
+
+export const isJobActive = (job?: Job): boolean => job?.status === 'queued' || job?.status === 'running';
+
+let jobCounter = 0;
+
+export class JobQueue {
+  private jobs: Job[] = [];
+  private runners = new Map<string, JobRunner>();
+  private controllers = new Map<string, AbortController>();
+  private events = new Emitter<JobQueueEvents>();
+  private running = false;
+
+  on<K extends keyof JobQueueEvents>(event: K, handler: (...args: JobQueueEvents[K]) => void): () => void {
+    return this.events.on(event, handler);
+  }
+
+  getJobs(): Job[] {
+    return this.jobs;
+  }
+
+  enqueue(kind: string, label: string, run: JobRunner): string {
+    const id = `job-${Date.now().toString(36)}-${(jobCounter++).toString(36)}`;
+    this.runners.set(id, run);
+    this.jobs = [...this.jobs, { id, kind, label, status: 'queued', attempts: 0 }];
+    this.emitJobs();
+    void this.runNext();
+    return id;
+  }
+
+  /** Puts a failed or cancelled job back in the queue with the same runner. */
+  retry(id: string) {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+
+    // Move it to the back so it runs after whatever is already waiting
+    this.jobs = [
+      ...this.jobs.filter(candidate => candidate.id !== id),
+      { ...job, status: 'queued', error: undefined, progress: undefined }
+    ];
+    this.emitJobs();
+    void this.runNext();
+  }
+
+  cancel(id: string) {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    if (!job) return;
+
+    if (job.status === 'queued') {
+      this.settle(id, { status: 'cancelled' });
+    } else if (job.status === 'running') {
+      // The runner sees the abort and rejects; runNext settles the job
+      this.controllers.get(id)?.abort();
+    }
+  }
+
+  /** Aborts whatever is running and forgets all jobs, without settling them. */
+  clear() {
+    this.controllers.forEach(controller => controller.abort());
+    this.jobs = [];
+    this.runners.clear();
+    this.emitJobs();
+  }
+
+  private async runNext() {
+    if (this.running) return;
+    const job = this.jobs.find(candidate => candidate.status === 'queued');
+    const run = job && this.runners.get(job.id);
+    if (!job || !run) return;
+
+    this.running = true;
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    const attempt = job.attempts + 1;
+    this.update(job.id, { status: 'running', attempts: attempt });
+
+    try {
+      await run({
+        signal: controller.signal,
+        attempt,
+        reportProgress: (progress) => {
+          if (!controller.signal.aborted) this.update(job.id, { progress });
+        }
+      });
+      this.settle(job.id, {
+        status: controller.signal.aborted ? 'cancelled' : 'succeeded',
+        progress: undefined
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.settle(job.id, { status: 'cancelled', progress: undefined });
+      } else {
+        console.error(`Job "${job.label}" failed:`, error);
+        this.settle(job.id, {
+          status: 'failed',
+          progress: undefined,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    } finally {
+      this.controllers.delete(job.id);
+      this.running = false;
+      void this.runNext();
+    }
+  }
+
+  private settle(id: string, changes: Partial<Job>) {
+    this.update(id, changes);
+    // Only failed and cancelled jobs can be retried; let go of what a finished runner holds, e.g. its recording
+    if (changes.status === 'succeeded') this.runners.delete(id);
+    const job = this.jobs.find(candidate => candidate.id === id);
+    if (job) this.events.emit('settled', job);
+  }
+
+  private update(id: string, changes: Partial<Job>) {
+    // Jobs forgotten by clear() may still be finishing
+    if (!this.jobs.some(job => job.id === id)) return;
+    this.jobs = this.jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+    this.emitJobs();
+  }
+
+  private emitJobs() {
+    this.events.emit('changed', this.jobs);
+  }
+}
+
+/**
+ * The app-wide queue for post-recording work. Jobs save their results to the
+ * library, so they keep running when the studio that queued them unmounts.
+ */
+export const recordingJobs = new JobQueue();
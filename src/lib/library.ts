@@ -0,0 +1,145 @@
+// Recording library persisted in IndexedDB so recordings survive reloads and
+// tab switches. Metadata and media live in separate object stores, so listing
+// the library never has to read the (potentially huge) blobs.
+
+import type { CaptureMode } from '@/lib/capture';
+import { STORES, committed, openDatabase, request } from '@/lib/db';
+import { Emitter } from '@/lib/emitter';
+import type { MeetingMinutes } from '@/lib/minutes';
+import type { Transcript } from '@/lib/transcript';
+
+/** Where a recording sits in a session that was split into several files. */
+export interface RecordingPart {
+  /** Shared by every part of the session. */
+  sessionId: string;
+  /** Epoch milliseconds the session started. */
+  sessionStartedAt: number;
+  /** 1-based. */
+  index: number;
+}
+
+export interface RecordingMetadata {
+  id: string;
+  title: string;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  /** Seconds. */
+  duration: number;
+  captureMode: CaptureMode;
+  /** Bytes. */
+  size: number;
+  mimeType: string;
+  transcript: Transcript | null;
+  minutes: MeetingMinutes | null;
+  /** Only on recordings split into parts; absent on older entries. */
+  part?: RecordingPart;
+}
+
+export type NewRecording = Omit<RecordingMetadata, 'id' | 'size' | 'mimeType'> & { blob: Blob };
+
+export type RecordingChanges = Partial<Pick<RecordingMetadata, 'title' | 'transcript' | 'minutes'>>;
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export type LibraryEvents = {
+  changed: [];
+};
+
+const METADATA_STORE = STORES.recordings;
+const BLOB_STORE = STORES.recordingBlobs;
+
+/** `1.4 MB`-style sizes for the library and quota readouts. */
+export const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 || value >= 10 ? 0 : 1)} ${units[unit]}`;
+};
+
+export class RecordingLibrary {
+  private events = new Emitter<LibraryEvents>();
+
+  on<K extends keyof LibraryEvents>(event: K, handler: (...args: LibraryEvents[K]) => void): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /** Newest first. */
+  async list(): Promise<RecordingMetadata[]> {
+    const db = await openDatabase();
+    const recordings = await request(db.transaction(METADATA_STORE).objectStore(METADATA_STORE).getAll());
+    return (recordings as RecordingMetadata[]).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async get(id: string): Promise<RecordingMetadata | undefined> {
+    const db = await openDatabase();
+    return request(db.transaction(METADATA_STORE).objectStore(METADATA_STORE).get(id));
+  }
+
+  async getBlob(id: string): Promise<Blob | undefined> {
+    const db = await openDatabase();
+    return request(db.transaction(BLOB_STORE).objectStore(BLOB_STORE).get(id));
+  }
+
+  async add({ blob, ...recording }: NewRecording): Promise<RecordingMetadata> {
+    const db = await openDatabase();
+    const metadata: RecordingMetadata = {
+      ...recording,
+      id: `recording-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      size: blob.size,
+      mimeType: blob.type
+    };
+
+    const transaction = db.transaction([METADATA_STORE, BLOB_STORE], 'readwrite');
+    transaction.objectStore(METADATA_STORE).add(metadata);
+    transaction.objectStore(BLOB_STORE).add(blob, metadata.id);
+    await committed(transaction);
+
+    this.events.emit('changed');
+    return metadata;
+  }
+
+  async update(id: string, changes: RecordingChanges): Promise<RecordingMetadata> {
+    const db = await openDatabase();
+    const transaction = db.transaction(METADATA_STORE, 'readwrite');
+    const store = transaction.objectStore(METADATA_STORE);
+    const current: RecordingMetadata | undefined = await request(store.get(id));
+    if (!current) {
+      transaction.abort();
+      throw new Error('That recording is no longer in the library');
+    }
+
+    const updated = { ...current, ...changes };
+    store.put(updated);
+    await committed(transaction);
+
+    this.events.emit('changed');
+    return updated;
+  }
+
+  async delete(id: string) {
+    const db = await openDatabase();
+    const transaction = db.transaction([METADATA_STORE, BLOB_STORE], 'readwrite');
+    transaction.objectStore(METADATA_STORE).delete(id);
+    transaction.objectStore(BLOB_STORE).delete(id);
+    await committed(transaction);
+
+    this.events.emit('changed');
+  }
+
+  /** How much of the origin's quota is used; null where the browser will not say. */
+  async estimateStorage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota ? { usage, quota } : null;
+  }
+}
+
+/** The app-wide library, shared by the studio that saves recordings and the library view. */
+export const recordingLibrary = new RecordingLibrary();
@@ -0,0 +1,190 @@
+// Full-mesh audio call: every participant holds one RTCPeerConnection per remote
+// participant and sends its local stream over each of them. Fine for the small
+// rooms this app targets; larger rooms would need an SFU.
+
+import { Emitter } from '@/lib/emitter';
+import { SignalingClient, SignalPayload } from '@/lib/signaling';
+
+export interface MeshPeer {
+  id: string;
+  connection: RTCPeerConnection;
+  stream?: MediaStream;
+}
+
+export type MeshEvents = {
+  'peers-changed': [peers: MeshPeer[]];
+  'peer-joined': [peerId: string];
+  'peer-left': [peerId: string];
+  disconnected: [];
+};
+
+export const DEFAULT_RTC_CONFIGURATION: RTCConfiguration = {
+  iceServers: [{ urls: 'stun:stun.l.google.com:19302' }]
+};
+
+export class MeshManager {
+  private peers = new Map<string, MeshPeer>();
+  // ICE candidates can arrive before the offer/answer they belong to is applied
+  private pendingCandidates = new Map<string, RTCIceCandidateInit[]>();
+  private events = new Emitter<MeshEvents>();
+  private unsubscribe: (() => void)[] = [];
+
+  constructor(
+    private readonly signaling: SignalingClient,
+    private readonly localStream: MediaStream,
+    private readonly rtcConfiguration: RTCConfiguration = DEFAULT_RTC_CONFIGURATION
+  ) {}
+
+  on<K extends keyof MeshEvents>(event: K, handler: (...args: MeshEvents[K]) => void): () => void {
+    return this.events.on(event, handler);
+  }
+
+  getPeers(): MeshPeer[] {
+    return Array.from(this.peers.values());
+  }
+
+  async join(roomId: string, peerId: string) {
+    this.unsubscribe = [
+      this.signaling.on('signal', (from, payload) => {
+        this.handleSignal(from, payload).catch(error => {
+          console.error(`Error handling ${payload.kind} from ${from}:`, error);
+        });
+      }),
+      this.signaling.on('peer-joined', (remoteId) => {
+        this.events.emit('peer-joined', remoteId);
+      }),
+      this.signaling.on('peer-left', (remoteId) => {
+        this.removePeer(remoteId);
+        this.events.emit('peer-left', remoteId);
+      }),
+      this.signaling.on('disconnected', () => {
+        this.events.emit('disconnected');
+      })
+    ];
+
+    // Newcomers make the offers, so existing participants only ever answer
+    const existingPeers = await this.signaling.connect(roomId, peerId);
+    await Promise.all(existingPeers.map(remoteId => this.callPeer(remoteId)));
+  }
+
+  /** Closes the connection to a single participant without leaving the room. */
+  removePeer(peerId: string) {
+    const peer = this.peers.get(peerId);
+    this.pendingCandidates.delete(peerId);
+    if (!peer) return;
+
+    peer.connection.close();
+    this.peers.delete(peerId);
+    this.emitPeers();
+  }
+
+  /**
+   * Sends `track` instead of the local track of the same kind, e.g. after a
+   * device change. replaceTrack needs no renegotiation, so the call carries on.
+   */
+  async replaceTrack(track: MediaStreamTrack) {
+    this.localStream.getTracks()
+      .filter(existing => existing.kind === track.kind)
+      .forEach(existing => this.localStream.removeTrack(existing));
+    // Peers that join later pick the new track up from the local stream
+    this.localStream.addTrack(track);
+
+    await Promise.all(this.getPeers().map(peer => {
+      const sender = peer.connection.getSenders().find(candidate => candidate.track?.kind === track.kind);
+      return sender?.replaceTrack(track);
+    }));
+  }
+
+  leave() {
+    this.unsubscribe.forEach(unsubscribe => unsubscribe());
+    this.unsubscribe = [];
+    this.signaling.disconnect();
+
+    this.peers.forEach(peer => peer.connection.close());
+    this.peers.clear();
+    this.pendingCandidates.clear();
+    this.emitPeers();
+    this.events.clear();
+  }
+
+  private emitPeers() {
+    this.events.emit('peers-changed', this.getPeers());
+  }
+
+  private createPeerConnection(peerId: string): RTCPeerConnection {
+    const connection = new RTCPeerConnection(this.rtcConfiguration);
+    this.localStream.getTracks().forEach(track => connection.addTrack(track, this.localStream));
+
+    connection.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.signaling.send(peerId, { kind: 'candidate', candidate: event.candidate.toJSON() });
+      }
+    };
+
+    connection.ontrack = (event) => {
+      const peer = this.peers.get(peerId);
+      if (peer && peer.connection === connection) {
+        this.peers.set(peerId, { ...peer, stream: event.streams[0] });
+        this.emitPeers();
+      }
+    };
+
+    connection.onconnectionstatechange = () => {
+      if (this.peers.get(peerId)?.connection !== connection) return;
+
+      if (connection.connectionState === 'failed' || connection.connectionState === 'closed') {
+        this.removePeer(peerId);
+        return;
+      }
+      this.emitPeers();
+    };
+
+    this.peers.set(peerId, { id: peerId, connection });
+    this.emitPeers();
+    return connection;
+  }
+
+  private async flushPendingCandidates(peerId: string, connection: RTCPeerConnection) {
+    const candidates = this.pendingCandidates.get(peerId) ?? [];
+    this.pendingCandidates.delete(peerId);
+    for (const candidate of candidates) {
+      await connection.addIceCandidate(candidate);
+    }
+  }
+
+  private async callPeer(peerId: string) {
+    const connection = this.createPeerConnection(peerId);
+    const offer = await connection.createOffer();
+    await connection.setLocalDescription(offer);
+    this.signaling.send(peerId, { kind: 'offer', sdp: offer });
+  }
+
+  private async handleSignal(from: string, payload: SignalPayload) {
+    const existing = this.peers.get(from)?.connection;
+
+    switch (payload.kind) {
+      case 'offer': {
+        const connection = existing ?? this.createPeerConnection(from);
+        await connection.setRemoteDescription(payload.sdp);
+        await this.flushPendingCandidates(from, connection);
+        const answer = await connection.createAnswer();
+        await connection.setLocalDescription(answer);
+        this.signaling.send(from, { kind: 'answer', sdp: answer });
+        break;
+      }
+      case 'answer':
+        if (!existing) return;
+        await existing.setRemoteDescription(payload.sdp);
+        await this.flushPendingCandidates(from, existing);
+        break;
+      case 'candidate':
+        if (existing?.remoteDescription) {
+          await existing.addIceCandidate(payload.candidate);
+        } else {
+          const pending = this.pendingCandidates.get(from) ?? [];
+          this.pendingCandidates.set(from, [...pending, payload.candidate]);
+        }
+        break;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { LlmMinutesExtractor } from './llm';
+import { LocalMinutesExtractor } from './local';
+import { MeetingMinutes, MinutesExtractor, MinutesExtractorId } from './types';
+import { formatTimestamp } from '@/lib/transcript';
+
+export * from './types';
+export { DEFAULT_LLM_ENDPOINT, DEFAULT_LLM_MODEL } from './llm';
+
+export interface MinutesSettings {
+  extractorId: MinutesExtractorId;
+  llmEndpoint: string;
+  llmModel: string;
+}
+
+export interface MinutesExtractorInfo {
+  id: MinutesExtractorId;
+  label: string;
+  description: string;
+}
+
+export const MINUTES_EXTRACTORS: MinutesExtractorInfo[] = [
+  {
+    id: 'local',
+    label: 'Local (rule-based)',
+    description: 'Ranks sentences and spots decisions, action items and questions by cue phrases. Nothing leaves the browser.'
+  },
+  {
+    id: 'llm',
+    label: 'Self-hosted LLM',
+    description: 'Sends the transcript to an OpenAI-compatible chat completions endpoint you host, such as Ollama.'
+  }
+];
+
+export const createMinutesExtractor = (settings: MinutesSettings): MinutesExtractor => {
+  switch (settings.extractorId) {
+    case 'llm':
+      return new LlmMinutesExtractor(settings.llmEndpoint, settings.llmModel);
+    case 'local':
+    default:
+      return new LocalMinutesExtractor();
+  }
+};
+
+export const isMinutesEmpty = (minutes: MeetingMinutes | null): boolean => {
+  return !minutes || (
+    !minutes.summary &&
+    !minutes.decisions.length &&
+    !minutes.actionItems.length &&
+    !minutes.openQuestions.length
+  );
+};
+
+export const minutesToText = (minutes: MeetingMinutes): string => {
+  const at = (timestamp?: number) => (timestamp !== undefined ? ` [${formatTimestamp(timestamp)}]` : '');
+  const section = (title: string, lines: string[]) =>
+    lines.length ? `${title}:\n${lines.map((line, index) => `${index + 1}. ${line}`).join('\n')}` : '';
+
+  return [
+    minutes.summary && `Summary:\n${minutes.summary}`,
+    section('Decisions', minutes.decisions.map(item => `${item.text}${at(item.timestamp)}`)),
+    section('Action Items', minutes.actionItems.map(item => {
+      const details = [
+        item.owner && `Owner: ${item.owner}`,
+        item.due && `Due: ${item.dueDate ?? item.due}`
+      ].filter(Boolean).join(', ');
+      return `${item.text}${details ? ` (${details})` : ''}${at(item.timestamp)}`;
+    })),
+    section('Open Questions', minutes.openQuestions.map(item => `${item.text}${at(item.timestamp)}`))
+  ].filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,108 @@
+// Minutes from a self-hosted LLM behind an OpenAI-compatible chat completions
+// endpoint (Ollama, llama.cpp server, vLLM, LM Studio, ...). The model is asked
+// for JSON in the same shape the local extractor produces.
+
+import { z } from 'zod';
+import { Transcript, transcriptToText } from '@/lib/transcript';
+import { MeetingMinutes, MinutesExtractionOptions, MinutesExtractor } from './types';
+
+export const DEFAULT_LLM_ENDPOINT =
+  import.meta.env.VITE_MINUTES_LLM_ENDPOINT || 'http://localhost:11434/v1/chat/completions';
+export const DEFAULT_LLM_MODEL = 'llama3.1';
+
+// Models commonly answer null rather than leaving a field out; both mean missing
+const itemSchema = z.object({
+  text: z.string(),
+  timestamp: z.string().nullish()
+});
+
+const minutesSchema = z.object({
+  summary: z.string().default(''),
+  decisions: z.array(itemSchema).default([]),
+  actionItems: z.array(itemSchema.extend({
+    owner: z.string().nullish(),
+    due: z.string().nullish(),
+    dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().catch(undefined)
+  })).default([]),
+  openQuestions: z.array(itemSchema).default([])
+});
+
+const SYSTEM_PROMPT = `You write meeting minutes from transcripts.
+Reply with a single JSON object and nothing else, using this shape:
+{
+  "summary": "two or three sentences",
+  "decisions": [{ "text": "...", "timestamp": "mm:ss" }],
+  "actionItems": [{ "text": "...", "owner": "name if stated", "due": "deadline as spoken", "dueDate": "yyyy-MM-dd", "timestamp": "mm:ss" }],
+  "openQuestions": [{ "text": "...", "timestamp": "mm:ss" }]
+}
+Only include items that are actually in the transcript. Timestamps are the [mm:ss] marker of the line the item comes from.`;
+
+/** "mm:ss" or "h:mm:ss" back to milliseconds. */
+const parseTimestamp = (value?: string | null): number | undefined => {
+  if (!value || !/^\d+(:\d{1,2}){1,2}$/.test(value)) return undefined;
+  return value.split(':').reduce((total, part) => total * 60 + Number(part), 0) * 1000;
+};
+
+export class LlmMinutesExtractor implements MinutesExtractor {
+  readonly id = 'llm';
+
+  constructor(
+    private readonly endpoint: string = DEFAULT_LLM_ENDPOINT,
+    private readonly model: string = DEFAULT_LLM_MODEL
+  ) {}
+
+  async extract(transcript: Transcript, options: MinutesExtractionOptions = {}): Promise<MeetingMinutes> {
+    const meetingDate = (options.meetingDate ?? new Date()).toDateString();
+    const lines = transcriptToText(transcript, { timestamps: true });
+
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal: options.signal,
+        body: JSON.stringify({
+          model: this.model,
+          temperature: 0,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: `The meeting took place on ${meetingDate}.\n\nTranscript:\n${lines}` }
+          ]
+        })
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      throw new Error(`Could not reach the minutes model at ${this.endpoint}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Minutes model responded with ${response.status} ${response.statusText}`);
+    }
+
+    const completion: { choices?: { message?: { content?: string } }[] } = await response.json();
+    const content = completion.choices?.[0]?.message?.content ?? '';
+
+    let parsed: z.infer<typeof minutesSchema>;
+    try {
+      // Some models wrap JSON in a code fence despite being told not to
+      const json = content.replace(/^\s*```(?:json)?/, '').replace(/```\s*$/, '');
+      parsed = minutesSchema.parse(JSON.parse(json));
+    } catch {
+      throw new Error('The minutes model did not return valid minutes');
+    }
+
+    return {
+      summary: parsed.summary,
+      decisions: parsed.decisions.map(item => ({ text: item.text, timestamp: parseTimestamp(item.timestamp) })),
+      actionItems: parsed.actionItems.map(item => ({
+        text: item.text,
+        timestamp: parseTimestamp(item.timestamp),
+        owner: item.owner || undefined,
+        due: item.due || undefined,
+        dueDate: item.dueDate
+      })),
+      openQuestions: parsed.openQuestions.map(item => ({ text: item.text, timestamp: parseTimestamp(item.timestamp) }))
+    };
+  }
+}
@@ -0,0 +1,275 @@
+// Rule-based minutes extraction that runs entirely in the browser: split the
+// transcript into sentences, rank them by TF-IDF for the summary, and classify
+// them with cue phrases ("we decided", "action item", "by Friday", ...).
+
+import {
+  addDays,
+  addYears,
+  endOfMonth,
+  format,
+  isValid,
+  nextDay,
+  nextFriday,
+  nextMonday,
+  parse,
+  startOfDay,
+  type Day
+} from 'date-fns';
+import { Transcript } from '@/lib/transcript';
+import {
+  ActionItem,
+  MeetingMinutes,
+  MinutesExtractionOptions,
+  MinutesExtractor,
+  MinutesItem
+} from './types';
+
+interface Sentence {
+  text: string;
+  timestamp: number;
+  speaker?: string;
+  tokens: string[];
+}
+
+const STOPWORDS = new Set(
+  ('a about above after again all also am an and any are as at be because been before being below between both but by ' +
+    'can could did do does doing down during each few for from further had has have having he her here hers him his how ' +
+    'i if in into is it its itself just let lets me more most my no nor not now of off on once only or other our ours out ' +
+    'over own same she should so some such than that the their them then there these they this those through to too ' +
+    'under until up very was we were what when where which while who whom why will with would you your yours yeah okay ' +
+    'ok um uh like really going get got think know right well thing things actually basically gonna want')
+    .split(' ')
+);
+
+const DECISION_CUES = [
+  /\bwe (?:have |'ve )?(?:decided|agreed|settled on|concluded)\b/i,
+  /\b(?:the )?decision (?:is|was)\b/i,
+  /\blet'?s go (?:with|ahead)\b/i,
+  /\bwe(?:'re| are) going (?:with|to go with)\b/i,
+  /\b(?:approved|signed off|final answer)\b/i,
+  /\bagreed (?:that|to|on)\b/i
+];
+
+// "will", or "'ll" straight after the subject, then a verb that makes it a task
+const COMMITMENT = String.raw`(?:\s+(?:will|is going to|are going to|needs? to|has to|have to|should)|['’]ll)\s+` +
+  String.raw`(?:send|write|prepare|update|fix|review|schedule|draft|create|share|check|finish|ship|deploy|set up|book|` +
+  String.raw`email|call|investigate|test|document|talk to|put together)\b`;
+
+const ACTION_CUES = [
+  /\baction items?\b/i,
+  /\b(?:follow[ -]up|take care of|look into|get back to|reach out|circle back)\b/i,
+  /\b(?:assigned to|is responsible for|owns?)\b/i,
+  new RegExp(String.raw`\b(?:i|we|you|he|she|they)${COMMITMENT}`, 'i'),
+  // Names are capitalised words; matching them case-insensitively would take any word as a subject
+  new RegExp(String.raw`\b[A-Z][a-z]+${COMMITMENT}`)
+];
+
+const QUESTION_CUES = [
+  /\bopen question\b/i,
+  /\b(?:not sure|unclear|unknown|tbd|to be decided|to be determined)\b/i,
+  /\b(?:need|needs) to (?:figure out|decide|find out)\b/i,
+  /\bstill (?:need to|have to) (?:decide|confirm|check)\b/i
+];
+
+const WEEKDAYS: Record<string, Day> = {
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6
+};
+
+const DUE_PATTERN = new RegExp(
+  '\\b(?:by|before|until|due|on|no later than)\\s+(' +
+    '(?:next |this )?(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)' +
+    '|tomorrow|today|tonight|eod|eow|end of (?:the )?(?:day|week|month)|next week' +
+    '|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.? \\d{1,2}(?:st|nd|rd|th)?' +
+    '|\\d{1,2}/\\d{1,2}(?:/\\d{2,4})?' +
+    ')\\b',
+  'i'
+);
+
+// Capitalized words that start sentences without naming anyone
+const NOT_NAMES = new Set([
+  'We', 'I', 'You', 'He', 'She', 'They', 'It', 'This', 'That', 'There', 'Then', 'So', 'And', 'But',
+  'Also', 'Someone', 'Somebody', 'Everyone', 'Everybody', 'Nobody', 'Who', 'What', 'Okay', 'Ok', 'Yeah',
+  'Let', 'Lets', 'Next', 'Action', 'Item', 'The', 'If', 'Maybe', 'Please'
+]);
+
+const OWNER_PATTERNS = [
+  /\b(?:assigned to|owner is|action item for)\s+([A-Z][a-z]+)/,
+  /\b([A-Z][a-z]+)(?:\s+(?:will|is going to|needs to|has to|should|owns|is responsible for|can)|['’]ll)\b/,
+  /\b([A-Z][a-z]+),\s+(?:can|could|would) you\b/
+];
+
+const tokenize = (text: string): string[] => {
+  return (text.toLowerCase().match(/[a-z0-9']+/g) ?? [])
+    .map(token => token.replace(/'s$/, ''))
+    .filter(token => token.length > 2 && !STOPWORDS.has(token));
+};
+
+const splitSentences = (transcript: Transcript): Sentence[] => {
+  const sentences: Sentence[] = [];
+
+  for (const segment of transcript.segments) {
+    const parts = segment.text.split(/(?<=[.!?])\s+/).filter(part => part.trim());
+    const totalChars = parts.reduce((sum, part) => sum + part.length, 0) || 1;
+    let offset = 0;
+
+    for (const part of parts) {
+      sentences.push({
+        text: part.trim(),
+        // Spread the segment's time across its sentences by length
+        timestamp: Math.round(segment.start + ((segment.end - segment.start) * offset) / totalChars),
+        speaker: segment.speaker,
+        tokens: tokenize(part)
+      });
+      offset += part.length;
+    }
+  }
+
+  return sentences;
+};
+
+const scoreSentences = (sentences: Sentence[]): number[] => {
+  const documentFrequency = new Map<string, number>();
+  sentences.forEach(sentence => {
+    new Set(sentence.tokens).forEach(token => {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    });
+  });
+
+  // Terms that recur across the meeting matter more than one-off mentions
+  const corpusFrequency = new Map<string, number>();
+  sentences.forEach(sentence => sentence.tokens.forEach(token => {
+    corpusFrequency.set(token, (corpusFrequency.get(token) ?? 0) + 1);
+  }));
+
+  const total = sentences.length;
+  return sentences.map(sentence => {
+    if (!sentence.tokens.length) return 0;
+    const score = sentence.tokens.reduce((sum, token) => {
+      const idf = Math.log((1 + total) / (1 + (documentFrequency.get(token) ?? 0))) + 1;
+      const salience = Math.log(1 + (corpusFrequency.get(token) ?? 0));
+      return sum + idf * salience;
+    }, 0);
+    return score / Math.sqrt(sentence.tokens.length);
+  });
+};
+
+/** "march 3rd", "3/15", "3/15/27"; dates without a year fall on or after the meeting. */
+const parseCalendarDate = (phrase: string, meetingDate: Date): Date | undefined => {
+  let candidate: Date;
+  let hasYear = false;
+
+  if (/^\d{1,2}\/\d{1,2}/.test(phrase)) {
+    const [month, day, year] = phrase.split('/');
+    hasYear = !!year;
+    const fullYear = !year ? meetingDate.getFullYear() : year.length === 2 ? 2000 + Number(year) : Number(year);
+    candidate = new Date(fullYear, Number(month) - 1, Number(day));
+  } else {
+    const [month, day] = phrase.replace('.', '').split(' ');
+    candidate = parse(`${month.slice(0, 3)} ${parseInt(day, 10)} ${meetingDate.getFullYear()}`, 'MMM d yyyy', meetingDate);
+  }
+
+  if (!isValid(candidate)) return undefined;
+  if (!hasYear && candidate < startOfDay(meetingDate)) {
+    candidate = addYears(candidate, 1);
+  }
+  return candidate;
+};
+
+const resolveDueDate = (due: string, meetingDate: Date): string | undefined => {
+  const phrase = due.toLowerCase().replace(/\s+/g, ' ').trim();
+  let date: Date | undefined;
+
+  const weekday = Object.keys(WEEKDAYS).find(day => phrase.endsWith(day));
+  if (weekday) {
+    date = nextDay(meetingDate, WEEKDAYS[weekday]);
+    if (phrase.startsWith('next ') && date.getTime() - meetingDate.getTime() < 7 * 86_400_000) {
+      date = addDays(date, 7);
+    }
+  } else if (phrase === 'tomorrow') {
+    date = addDays(meetingDate, 1);
+  } else if (phrase === 'today' || phrase === 'tonight' || phrase === 'eod' || /^end of (the )?day$/.test(phrase)) {
+    date = meetingDate;
+  } else if (phrase === 'eow' || /^end of (the )?week$/.test(phrase)) {
+    date = meetingDate.getDay() === 5 ? meetingDate : nextFriday(meetingDate);
+  } else if (/^end of (the )?month$/.test(phrase)) {
+    date = endOfMonth(meetingDate);
+  } else if (phrase === 'next week') {
+    date = nextMonday(meetingDate);
+  } else {
+    date = parseCalendarDate(phrase, meetingDate);
+  }
+
+  return date ? format(date, 'yyyy-MM-dd') : undefined;
+};
+
+const findOwner = (sentence: Sentence): string | undefined => {
+  for (const pattern of OWNER_PATTERNS) {
+    const match = sentence.text.match(pattern);
+    if (match && !NOT_NAMES.has(match[1])) return match[1];
+  }
+  // "I'll send it" names whoever was speaking, when we know who that was
+  if (/^(?:i|i'll|i will|i can)\b/i.test(sentence.text)) return sentence.speaker;
+  return undefined;
+};
+
+const toItem = (sentence: Sentence): MinutesItem => ({
+  text: sentence.text,
+  timestamp: sentence.timestamp,
+  speaker: sentence.speaker
+});
+
+const SUMMARY_SENTENCES = 3;
+const MIN_WORDS = 4;
+
+export class LocalMinutesExtractor implements MinutesExtractor {
+  readonly id = 'local';
+
+  async extract(transcript: Transcript, options: MinutesExtractionOptions = {}): Promise<MeetingMinutes> {
+    const meetingDate = options.meetingDate ?? new Date();
+    const sentences = splitSentences(transcript).filter(sentence => sentence.text.split(/\s+/).length >= MIN_WORDS);
+    const scores = scoreSentences(sentences);
+
+    const decisions: MinutesItem[] = [];
+    const actionItems: ActionItem[] = [];
+    const openQuestions: MinutesItem[] = [];
+
+    sentences.forEach(sentence => {
+      const isQuestion = sentence.text.endsWith('?') || QUESTION_CUES.some(cue => cue.test(sentence.text));
+      const isDecision = DECISION_CUES.some(cue => cue.test(sentence.text));
+      const dueMatch = sentence.text.match(DUE_PATTERN);
+      // A date alone is no task ("we decided to ship on March 3rd"); it only sets when a committed one is due
+      const isAction = ACTION_CUES.some(cue => cue.test(sentence.text));
+
+      if (isDecision) {
+        decisions.push(toItem(sentence));
+      }
+      if (isAction && !sentence.text.endsWith('?')) {
+        actionItems.push({
+          ...toItem(sentence),
+          owner: findOwner(sentence),
+          due: dueMatch?.[1],
+          dueDate: dueMatch ? resolveDueDate(dueMatch[1], meetingDate) : undefined
+        });
+      } else if (isQuestion && !isDecision) {
+        openQuestions.push(toItem(sentence));
+      }
+    });
+
+    const summary = sentences
+      .map((sentence, index) => ({ sentence, score: scores[index], index }))
+      .filter(({ sentence }) => !sentence.text.endsWith('?'))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, SUMMARY_SENTENCES)
+      .sort((a, b) => a.index - b.index)
+      .map(({ sentence }) => sentence.text)
+      .join(' ');
+
+    return { summary, decisions, actionItems, openQuestions };
+  }
+}
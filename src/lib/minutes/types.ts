@@ -0,0 +1,37 @@
+import type { Transcript } from '@/lib/transcript';
+
+export type MinutesExtractorId = 'local' | 'llm';
+
+export interface MinutesItem {
+  text: string;
+  /** Where in the recording this came up, in milliseconds. */
+  timestamp?: number;
+  speaker?: string;
+}
+
+export interface ActionItem extends MinutesItem {
+  owner?: string;
+  /** The deadline as spoken ("by Friday"). */
+  due?: string;
+  /** `due` resolved against the meeting date, as `yyyy-MM-dd`. */
+  dueDate?: string;
+}
+
+export interface MeetingMinutes {
+  summary: string;
+  decisions: MinutesItem[];
+  actionItems: ActionItem[];
+  openQuestions: MinutesItem[];
+}
+
+export interface MinutesExtractionOptions {
+  /** When the meeting took place; relative deadlines are resolved against it. */
+  meetingDate?: Date;
+  signal?: AbortSignal;
+}
+
+/** Turns a transcript into structured minutes. */
+export interface MinutesExtractor {
+  readonly id: MinutesExtractorId;
+  extract(transcript: Transcript, options?: MinutesExtractionOptions): Promise<MeetingMinutes>;
+}
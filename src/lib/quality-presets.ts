@@ -0,0 +1,105 @@
+// Named capture qualities. Each preset sets the resolution and frame rate we
+// ask the capture source for, and bitrates that suit them. Sources treat the
+// sizes as ideals, so what was actually negotiated is read back afterwards.
+
+export interface QualityPreset {
+  id: string;
+  label: string;
+  description: string;
+  width: number;
+  height: number;
+  frameRate: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+}
+
+export const QUALITY_PRESETS: QualityPreset[] = [
+  {
+    id: '720p30',
+    label: '720p · 30 fps',
+    description: 'Low bandwidth; fine for slides and calls.',
+    width: 1280,
+    height: 720,
+    frameRate: 30,
+    videoBitsPerSecond: 1_500_000,
+    audioBitsPerSecond: 96_000
+  },
+  {
+    id: '1080p30',
+    label: '1080p · 30 fps',
+    description: 'Full HD; the usual choice for screen recordings.',
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    videoBitsPerSecond: 4_000_000,
+    audioBitsPerSecond: 128_000
+  },
+  {
+    id: '1440p60',
+    label: '1440p · 60 fps',
+    description: 'Smooth motion for demos and scrolling-heavy content.',
+    width: 2560,
+    height: 1440,
+    frameRate: 60,
+    videoBitsPerSecond: 10_000_000,
+    audioBitsPerSecond: 160_000
+  },
+  {
+    id: '2160p30',
+    label: '4K · 30 fps',
+    description: 'Sharpest text on high-DPI displays. Large files.',
+    width: 3840,
+    height: 2160,
+    frameRate: 30,
+    videoBitsPerSecond: 20_000_000,
+    audioBitsPerSecond: 192_000
+  }
+];
+
+export const DEFAULT_QUALITY_PRESET = '1080p30';
+
+export const getQualityPreset = (id: string): QualityPreset => {
+  return QUALITY_PRESETS.find(preset => preset.id === id)
+    ?? QUALITY_PRESETS.find(preset => preset.id === DEFAULT_QUALITY_PRESET);
+};
+
+export const videoConstraintsFor = (preset: QualityPreset): MediaTrackConstraints => ({
+  width: { ideal: preset.width },
+  height: { ideal: preset.height },
+  frameRate: { ideal: preset.frameRate }
+});
+
+/** What the capture source actually delivered, as reported by `MediaStreamTrack.getSettings()`. */
+export interface NegotiatedSettings {
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  sampleRate?: number;
+  channelCount?: number;
+}
+
+export const readNegotiatedSettings = (stream: MediaStream): NegotiatedSettings => {
+  const video = stream.getVideoTracks()[0]?.getSettings() ?? {};
+  const audio = stream.getAudioTracks()[0]?.getSettings() ?? {};
+  return {
+    width: video.width,
+    height: video.height,
+    frameRate: video.frameRate,
+    sampleRate: audio.sampleRate,
+    channelCount: audio.channelCount
+  };
+};
+
+/** `1920×1080 @ 30 fps · 48 kHz stereo`, leaving out whatever the browser did not report. */
+export const formatNegotiatedSettings = (settings: NegotiatedSettings): string => {
+  const parts: string[] = [];
+  if (settings.width && settings.height) {
+    const frameRate = settings.frameRate ? ` @ ${Math.round(settings.frameRate)} fps` : '';
+    parts.push(`${settings.width}×${settings.height}${frameRate}`);
+  }
+  if (settings.sampleRate) {
+    const channels = settings.channelCount === 1 ? ' mono' : settings.channelCount === 2 ? ' stereo' : '';
+    parts.push(`${settings.sampleRate / 1000} kHz${channels}`);
+  }
+  return parts.join(' · ');
+};
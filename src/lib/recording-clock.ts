@@ -0,0 +1,33 @@
+// Recording time from performance.now() deltas. Counting interval ticks drifts
+// badly once the tab is throttled in the background, which is where the user
+// usually is while recording their screen.
+
+export class RecordingClock {
+  private elapsedBeforeRun = 0;
+  private runningSince: number | null = null;
+
+  get isRunning(): boolean {
+    return this.runningSince !== null;
+  }
+
+  /** Starts or resumes counting. */
+  resume() {
+    if (this.runningSince === null) {
+      this.runningSince = performance.now();
+    }
+  }
+
+  /** Stops counting until resumed; paused time is not part of the recording. */
+  pause() {
+    if (this.runningSince !== null) {
+      this.elapsedBeforeRun += performance.now() - this.runningSince;
+      this.runningSince = null;
+    }
+  }
+
+  /** Milliseconds recorded so far, excluding pauses. */
+  elapsed(): number {
+    const running = this.runningSince === null ? 0 : performance.now() - this.runningSince;
+    return this.elapsedBeforeRun + running;
+  }
+}
@@ -0,0 +1,125 @@
+// MediaRecorder format negotiation. Browsers differ widely in what they can
+// record (Safari only does MP4/H.264, Firefox only WebM), so formats are probed
+// with `MediaRecorder.isTypeSupported` instead of being hard-coded.
+
+import { DEFAULT_QUALITY_PRESET, getQualityPreset } from '@/lib/quality-presets';
+
+export type Container = 'webm' | 'mp4';
+
+export interface RecordingFormat {
+  id: string;
+  label: string;
+  mimeType: string;
+  container: Container;
+}
+
+/**
+ * Best first. AV1 compresses best but software encoders struggle in real time,
+ * so VP9 leads; H.264 in MP4 is what Safari and most editors handle natively.
+ */
+export const RECORDING_FORMATS: RecordingFormat[] = [
+  { id: 'webm-vp9', label: 'VP9 + Opus (WebM)', mimeType: 'video/webm;codecs=vp9,opus', container: 'webm' },
+  { id: 'webm-av1', label: 'AV1 + Opus (WebM)', mimeType: 'video/webm;codecs=av01,opus', container: 'webm' },
+  { id: 'mp4-h264', label: 'H.264 + AAC (MP4)', mimeType: 'video/mp4;codecs=avc1.42E01F,mp4a.40.2', container: 'mp4' },
+  { id: 'webm-h264', label: 'H.264 + Opus (WebM)', mimeType: 'video/webm;codecs=h264,opus', container: 'webm' },
+  { id: 'webm-vp8', label: 'VP8 + Opus (WebM)', mimeType: 'video/webm;codecs=vp8,opus', container: 'webm' },
+  { id: 'mp4', label: 'MP4 (browser default codecs)', mimeType: 'video/mp4', container: 'mp4' },
+  { id: 'webm', label: 'WebM (browser default codecs)', mimeType: 'video/webm', container: 'webm' }
+];
+
+export const AUTO_FORMAT = 'auto';
+
+/** What audio-only recordings are saved as. */
+export type AudioRecordingFormat = 'opus' | 'wav';
+
+export const AUDIO_RECORDING_FORMATS: { id: AudioRecordingFormat; label: string; description: string }[] = [
+  { id: 'opus', label: 'Opus (WebM)', description: 'Small files, about 1 MB per minute.' },
+  {
+    id: 'wav',
+    label: 'WAV',
+    description: 'Uncompressed, about 10 MB per minute. Recorded as Opus and converted when you stop.'
+  }
+];
+
+// MediaRecorder cannot write WAV; audio-only recordings always start as one of these
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+export interface RecorderSettings {
+  /** A RECORDING_FORMATS id, or `auto` for the best supported one. */
+  formatId: string;
+  /** A QUALITY_PRESETS id; choosing one also sets the bitrates below. */
+  presetId: string;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+  audioFormat: AudioRecordingFormat;
+}
+
+export const DEFAULT_RECORDER_SETTINGS: RecorderSettings = {
+  formatId: AUTO_FORMAT,
+  presetId: DEFAULT_QUALITY_PRESET,
+  videoBitsPerSecond: getQualityPreset(DEFAULT_QUALITY_PRESET).videoBitsPerSecond,
+  audioBitsPerSecond: getQualityPreset(DEFAULT_QUALITY_PRESET).audioBitsPerSecond,
+  audioFormat: 'opus'
+};
+
+export const VIDEO_BITRATES = [1_000_000, 1_500_000, 2_500_000, 4_000_000, 5_000_000, 8_000_000, 10_000_000, 20_000_000];
+export const AUDIO_BITRATES = [64_000, 96_000, 128_000, 160_000, 192_000];
+
+export const isFormatSupported = (format: RecordingFormat): boolean => {
+  return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(format.mimeType);
+};
+
+/** The chosen format if this browser can record it, else the best one it can; null if none probe as supported. */
+export const resolveFormat = (formatId: string): RecordingFormat | null => {
+  const chosen = RECORDING_FORMATS.find(format => format.id === formatId);
+  if (chosen && isFormatSupported(chosen)) return chosen;
+  return RECORDING_FORMATS.find(isFormatSupported) ?? null;
+};
+
+export const buildRecorderOptions = (settings: RecorderSettings): MediaRecorderOptions => {
+  const format = resolveFormat(settings.formatId);
+  return {
+    // Without a mimeType the browser records in its own default format
+    ...(format && { mimeType: format.mimeType }),
+    videoBitsPerSecond: settings.videoBitsPerSecond,
+    audioBitsPerSecond: settings.audioBitsPerSecond
+  };
+};
+
+export const buildAudioRecorderOptions = (settings: RecorderSettings): MediaRecorderOptions => {
+  const mimeType = typeof MediaRecorder === 'undefined'
+    ? undefined
+    : AUDIO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  return {
+    ...(mimeType && { mimeType }),
+    audioBitsPerSecond: settings.audioBitsPerSecond
+  };
+};
+
+/** File extension for a recorded blob's MIME type, e.g. `video/mp4;codecs=...` is `mp4`. */
+export const extensionForMimeType = (mimeType: string): string => {
+  const [type, subtype = ''] = mimeType.split(';')[0].trim().toLowerCase().split('/');
+  switch (subtype) {
+    case 'mp4':
+      return type === 'audio' ? 'm4a' : 'mp4';
+    case 'x-matroska':
+      return 'mkv';
+    case 'quicktime':
+      return 'mov';
+    case 'ogg':
+      return 'ogg';
+    case 'mpeg':
+      return 'mp3';
+    case 'wav':
+    case 'x-wav':
+      return 'wav';
+    default:
+      return 'webm';
+  }
+};
+
+export const formatBitrate = (bitsPerSecond: number): string => {
+  return bitsPerSecond >= 1_000_000
+    ? `${bitsPerSecond / 1_000_000} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+};
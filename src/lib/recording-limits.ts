@@ -0,0 +1,107 @@
+// Limits for recordings that run unattended, such as a recurring standup: a
+// countdown before the recorder starts, an automatic stop after a length or a
+// size, and splitting into parts so no single file grows unmanageable. Every
+// limit is off by default.
+
+export interface RecordingLimits {
+  /** Seconds counted down before recording starts; 0 starts at once. */
+  countdown: number;
+  /** Minutes; 0 for no limit. */
+  maxDuration: number;
+  /** Megabytes across all parts; 0 for no limit. */
+  maxSize: number;
+  /** Minutes per part; 0 keeps the recording in one file. */
+  splitEvery: number;
+}
+
+export type LimitReason = 'duration' | 'size';
+
+export const COUNTDOWN_OPTIONS = [0, 3, 5, 10];
+export const MAX_DURATION_OPTIONS = [0, 15, 30, 60, 90, 120];
+export const MAX_SIZE_OPTIONS = [0, 100, 250, 500, 1024, 2048];
+export const SPLIT_OPTIONS = [0, 5, 10, 15, 30, 60];
+
+export const DEFAULT_RECORDING_LIMITS: RecordingLimits = {
+  countdown: 0,
+  maxDuration: 0,
+  maxSize: 0,
+  splitEvery: 0
+};
+
+export const LIMIT_REASON_LABELS: Record<LimitReason, string> = {
+  duration: 'The recording reached its maximum length',
+  size: 'The recording reached its size limit'
+};
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/** `15 min`, `1 h`, `1.5 h`. */
+export const formatMinutes = (minutes: number): string => {
+  return minutes < 60 ? `${minutes} min` : `${Number((minutes / 60).toFixed(1))} h`;
+};
+
+/** `500 MB`, `2 GB`. */
+export const formatMegabytes = (megabytes: number): string => {
+  return megabytes < 1024 ? `${megabytes} MB` : `${Number((megabytes / 1024).toFixed(1))} GB`;
+};
+
+/** Which limit a recording of `seconds` and `bytes` so far has reached, if any. */
+export const reachedLimit = (limits: RecordingLimits, seconds: number, bytes: number): LimitReason | null => {
+  if (limits.maxDuration > 0 && seconds >= limits.maxDuration * 60) return 'duration';
+  if (limits.maxSize > 0 && bytes >= limits.maxSize * BYTES_PER_MB) return 'size';
+  return null;
+};
+
+/** Whether a part that has been recording for `seconds` should be closed and a new one started. */
+export const isPartDue = (limits: RecordingLimits, seconds: number): boolean => {
+  return limits.splitEvery > 0 && seconds >= limits.splitEvery * 60;
+};
+
+/** One line summing up the limits in effect, or an empty string when there are none. */
+export const describeLimits = (limits: RecordingLimits): string => {
+  const stops = [
+    ...(limits.maxDuration > 0 ? [formatMinutes(limits.maxDuration)] : []),
+    ...(limits.maxSize > 0 ? [formatMegabytes(limits.maxSize)] : [])
+  ];
+  return [
+    ...(stops.length ? [`Stops after ${stops.join(' or ')}`] : []),
+    ...(limits.splitEvery > 0 ? [`New part every ${formatMinutes(limits.splitEvery)}`] : [])
+  ].join(' · ');
+};
+
+/**
+ * Calls `onTick` with the seconds left, once a second, then resolves true.
+ * Resolves false as soon as `signal` aborts.
+ */
+export const countDown = (
+  seconds: number,
+  onTick: (remaining: number) => void,
+  signal: AbortSignal
+): Promise<boolean> => {
+  return new Promise(resolve => {
+    if (signal.aborted) {
+      resolve(false);
+      return;
+    }
+
+    let remaining = seconds;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const finish = (completed: boolean) => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', abort);
+      resolve(completed);
+    };
+    const abort = () => finish(false);
+    const tick = () => {
+      if (remaining <= 0) {
+        finish(true);
+        return;
+      }
+      onTick(remaining--);
+      timer = setTimeout(tick, 1000);
+    };
+
+    signal.addEventListener('abort', abort);
+    tick();
+  });
+};
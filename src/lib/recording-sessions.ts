@@ -0,0 +1,188 @@
+// Crash-safe recording: every MediaRecorder chunk is written to IndexedDB as it
+// arrives, under a session that is deleted once the finished recording is in
+// the library. A session still on disk with nobody writing to it was cut short
+// by a crash or a closed tab, and its chunks can be stitched back together.
+
+import { STORES, committed, openDatabase, request } from '@/lib/db';
+import type { CaptureMode } from '@/lib/capture';
+
+export interface RecordingSession {
+  id: string;
+  /** Epoch milliseconds. */
+  startedAt: number;
+  updatedAt: number;
+  captureMode: CaptureMode;
+  mimeType: string;
+  chunkCount: number;
+  /** Bytes written so far. */
+  size: number;
+  /** Seconds recorded as of the last chunk. */
+  duration: number;
+}
+
+export type NewRecordingSession = Pick<RecordingSession, 'captureMode' | 'mimeType'>;
+
+// Without Web Locks we can only guess that a session nobody has touched for a
+// while is abandoned. Chunks arrive every second while recording.
+const STALE_SESSION_MS = 60_000;
+
+const lockName = (id: string) => `recording-session:${id}`;
+
+/**
+ * Writes one session's chunks in order. Holds a Web Lock for as long as the
+ * session is open, which is how other tabs tell it apart from an orphan.
+ */
+export class RecordingSessionWriter {
+  private writes: Promise<void> = Promise.resolve();
+  private chunkCount = 0;
+  private size = 0;
+  private failed = false;
+
+  constructor(
+    private session: RecordingSession,
+    private readonly releaseLock: () => void
+  ) {}
+
+  get id() {
+    return this.session.id;
+  }
+
+  /** Queues `chunk` for writing; writes run one after another so chunks keep their order. */
+  append(chunk: Blob, duration: number) {
+    const index = this.chunkCount++;
+    this.size += chunk.size;
+    // Before the first chunk some browsers cannot say what they will record
+    if (index === 0 && chunk.type) {
+      this.session = { ...this.session, mimeType: chunk.type };
+    }
+    const size = this.size;
+
+    this.writes = this.writes.then(async () => {
+      if (this.failed) return;
+      try {
+        const db = await openDatabase();
+        const transaction = db.transaction([STORES.sessions, STORES.sessionChunks], 'readwrite');
+        transaction.objectStore(STORES.sessionChunks).put(chunk, [this.id, index]);
+        transaction.objectStore(STORES.sessions).put({
+          ...this.session,
+          updatedAt: Date.now(),
+          chunkCount: index + 1,
+          size,
+          duration
+        });
+        await committed(transaction);
+      } catch (error) {
+        // Usually the quota; the in-memory recording is unaffected
+        this.failed = true;
+        console.error('Error persisting recording chunk:', error);
+      }
+    });
+  }
+
+  /** Waits for queued writes and lets go of the session, leaving it on disk. */
+  async close() {
+    await this.writes;
+    this.releaseLock();
+  }
+
+  /** Closes the session and deletes it, once the recording is safe elsewhere. */
+  async finish() {
+    await this.close();
+    await recordingSessions.discard(this.id);
+  }
+}
+
+export class RecordingSessionStore {
+  async begin(session: NewRecordingSession): Promise<RecordingSessionWriter> {
+    const now = Date.now();
+    const record: RecordingSession = {
+      ...session,
+      id: `session-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      startedAt: now,
+      updatedAt: now,
+      chunkCount: 0,
+      size: 0,
+      duration: 0
+    };
+
+    // Lock first, so other tabs never see the new session unclaimed
+    const releaseLock = await this.holdLock(record.id);
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.sessions, 'readwrite');
+      transaction.objectStore(STORES.sessions).add(record);
+      await committed(transaction);
+    } catch (error) {
+      releaseLock();
+      throw error;
+    }
+
+    return new RecordingSessionWriter(record, releaseLock);
+  }
+
+  /** Sessions left behind by a tab that crashed or closed mid-recording. */
+  async listOrphaned(): Promise<RecordingSession[]> {
+    const db = await openDatabase();
+    const sessions: RecordingSession[] = await request(
+      db.transaction(STORES.sessions).objectStore(STORES.sessions).getAll()
+    );
+    if (!sessions.length) return [];
+
+    let isActive: (session: RecordingSession) => boolean;
+    if (navigator.locks?.query) {
+      const { held = [] } = await navigator.locks.query();
+      const heldNames = new Set(held.map(lock => lock.name));
+      isActive = session => heldNames.has(lockName(session.id));
+    } else {
+      isActive = session => Date.now() - session.updatedAt < STALE_SESSION_MS;
+    }
+
+    return sessions.filter(session => !isActive(session)).sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /** Stitches a session's chunks back into one playable file. */
+  async assemble(id: string): Promise<Blob> {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.sessions, STORES.sessionChunks]);
+    const session: RecordingSession | undefined = await request(transaction.objectStore(STORES.sessions).get(id));
+    if (!session) {
+      throw new Error('That recording session no longer exists');
+    }
+
+    const range = IDBKeyRange.bound([id, 0], [id, Number.MAX_SAFE_INTEGER]);
+    const chunks: Blob[] = await request(transaction.objectStore(STORES.sessionChunks).getAll(range));
+    if (!chunks.length) {
+      throw new Error('Nothing was recorded before the session ended');
+    }
+    return new Blob(chunks, { type: session.mimeType });
+  }
+
+  async discard(id: string) {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.sessions, STORES.sessionChunks], 'readwrite');
+    transaction.objectStore(STORES.sessions).delete(id);
+    transaction.objectStore(STORES.sessionChunks).delete(
+      IDBKeyRange.bound([id, 0], [id, Number.MAX_SAFE_INTEGER])
+    );
+    await committed(transaction);
+  }
+
+  /** Takes the session's lock and resolves with a function that releases it. */
+  private holdLock(id: string): Promise<() => void> {
+    if (!navigator.locks?.request) {
+      return Promise.resolve(() => {});
+    }
+
+    return new Promise(resolveAcquired => {
+      navigator.locks.request(lockName(id), () => new Promise<void>(release => {
+        resolveAcquired(release);
+      })).catch(error => {
+        // Still record; other tabs may just offer to recover this session early
+        console.error('Error holding recording session lock:', error);
+        resolveAcquired(() => {});
+      });
+    });
+  }
+}
+
+export const recordingSessions = new RecordingSessionStore();
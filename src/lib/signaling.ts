@@ -0,0 +1,151 @@
+// Signaling for voice call rooms. Peers never talk to the server about media,
+// only about how to reach each other: SDP offers/answers and ICE candidates are
+// relayed to a single remote peer, keyed by the room they both joined.
+
+import { Emitter } from '@/lib/emitter';
+
+export type SignalPayload =
+  | { kind: 'offer'; sdp: RTCSessionDescriptionInit }
+  | { kind: 'answer'; sdp: RTCSessionDescriptionInit }
+  | { kind: 'candidate'; candidate: RTCIceCandidateInit };
+
+export type ClientMessage =
+  | { type: 'join'; roomId: string; peerId: string }
+  | { type: 'leave' }
+  | { type: 'signal'; to: string; payload: SignalPayload };
+
+export type ServerMessage =
+  | { type: 'joined'; roomId: string; peerId: string; peers: string[] }
+  | { type: 'peer-joined'; peerId: string }
+  | { type: 'peer-left'; peerId: string }
+  | { type: 'signal'; from: string; payload: SignalPayload }
+  | { type: 'error'; message: string };
+
+export type SignalingEvents = {
+  'peer-joined': [peerId: string];
+  'peer-left': [peerId: string];
+  signal: [from: string, payload: SignalPayload];
+  disconnected: [];
+};
+
+/**
+ * Transport-agnostic signaling client. `connect` resolves with the ids of the
+ * peers already in the room once the join has been acknowledged.
+ */
+export interface SignalingClient {
+  connect(roomId: string, peerId: string): Promise<string[]>;
+  send(to: string, payload: SignalPayload): void;
+  on<K extends keyof SignalingEvents>(event: K, handler: (...args: SignalingEvents[K]) => void): () => void;
+  disconnect(): void;
+}
+
+export const DEFAULT_SIGNALING_URL =
+  import.meta.env.VITE_SIGNALING_URL || 'ws://localhost:8787';
+
+export const generatePeerId = (): string => {
+  return Math.random().toString(36).substring(2, 10);
+};
+
+export class WebSocketSignalingClient implements SignalingClient {
+  private socket: WebSocket | null = null;
+  private events = new Emitter<SignalingEvents>();
+  // Settles a connect() that has not joined yet when disconnect() cuts it short
+  private abandonJoin: (() => void) | null = null;
+
+  constructor(private readonly url: string = DEFAULT_SIGNALING_URL) {}
+
+  connect(roomId: string, peerId: string): Promise<string[]> {
+    this.disconnect();
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      let joined = false;
+      this.socket = socket;
+      this.abandonJoin = () => reject(new Error('Disconnected before joining the room'));
+
+      socket.onopen = () => {
+        this.write({ type: 'join', roomId, peerId });
+      };
+
+      socket.onmessage = (event) => {
+        let message: ServerMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          console.warn('Ignoring malformed signaling message:', event.data);
+          return;
+        }
+
+        switch (message.type) {
+          case 'joined':
+            joined = true;
+            this.abandonJoin = null;
+            resolve(message.peers);
+            break;
+          case 'peer-joined':
+            this.events.emit('peer-joined', message.peerId);
+            break;
+          case 'peer-left':
+            this.events.emit('peer-left', message.peerId);
+            break;
+          case 'signal':
+            this.events.emit('signal', message.from, message.payload);
+            break;
+          case 'error':
+            if (!joined) {
+              reject(new Error(message.message));
+              socket.close();
+            } else {
+              console.error('Signaling error:', message.message);
+            }
+            break;
+        }
+      };
+
+      socket.onerror = () => {
+        if (!joined) {
+          reject(new Error(`Could not reach signaling server at ${this.url}`));
+        }
+      };
+
+      socket.onclose = () => {
+        // A close we did not ask for via disconnect() means the server went away
+        if (this.socket !== socket) return;
+        this.socket = null;
+        if (joined) {
+          this.events.emit('disconnected');
+        } else {
+          reject(new Error(`Signaling connection to ${this.url} closed before joining`));
+        }
+      };
+    });
+  }
+
+  send(to: string, payload: SignalPayload) {
+    this.write({ type: 'signal', to, payload });
+  }
+
+  on<K extends keyof SignalingEvents>(event: K, handler: (...args: SignalingEvents[K]) => void): () => void {
+    return this.events.on(event, handler);
+  }
+
+  disconnect() {
+    this.abandonJoin?.();
+    this.abandonJoin = null;
+
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.socket = null;
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'leave' } satisfies ClientMessage));
+    }
+    socket.close();
+  }
+
+  private write(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
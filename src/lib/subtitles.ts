@@ -0,0 +1,198 @@
+// Caption generation from timestamped transcripts. Segments are re-cut into
+// cues that fit the configured line length, then each cue is given enough
+// screen time to be read at the configured characters-per-second rate.
+
+import { Transcript, TranscriptWord } from '@/lib/transcript';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleOptions {
+  /** Characters per line; 42 is the common broadcast limit. */
+  maxLineLength: number;
+  maxLines: number;
+  /** Reading speed a cue should not exceed. */
+  maxCharsPerSecond: number;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string;
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCharsPerSecond: 17
+};
+
+// Pauses longer than this start a new cue even if the current one has room
+const CUE_BREAK_GAP_MS = 1000;
+const MIN_CUE_DURATION_MS = 700;
+
+/** Word timings for a segment, estimated from character counts when the engine gave none. */
+const wordsFor = (segment: Transcript['segments'][number]): TranscriptWord[] => {
+  if (segment.words?.length) return segment.words;
+
+  const tokens = segment.text.split(/\s+/).filter(Boolean);
+  const totalChars = tokens.reduce((sum, token) => sum + token.length, 0) || 1;
+  const duration = segment.end - segment.start;
+
+  let cursor = segment.start;
+  return tokens.map(token => {
+    const end = cursor + (duration * token.length) / totalChars;
+    const word = { text: token, start: cursor, end };
+    cursor = end;
+    return word;
+  });
+};
+
+/** Fills each line with as many words as fit in `maxLineLength`; a longer word gets a line of its own. */
+const fillLines = (words: string[], maxLineLength: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && candidate.length > maxLineLength) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+/** Whether `text` wraps into at most `maxLines` lines of `maxLineLength`. */
+const fitsLines = (text: string, maxLineLength: number, maxLines: number): boolean => {
+  return fillLines(text.split(/\s+/).filter(Boolean), maxLineLength).length <= maxLines;
+};
+
+/**
+ * Splits text into lines of at most `maxLineLength`, preferring balanced
+ * lengths. Text that does not fit in `maxLines` lines gets more; buildCues
+ * moves such overflow into the next cue.
+ */
+export const wrapLines = (text: string, maxLineLength: number, maxLines: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (text.length <= maxLineLength) return [words.join(' ')];
+
+  // Aim for even lines rather than one full line and a dangling word
+  const target = Math.min(maxLineLength, Math.ceil(text.length / maxLines));
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && candidate.length > target && lines.length < maxLines - 1) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+
+  // Balancing can leave the last line too long; then fill every line instead
+  return lines.every(line => line.length <= maxLineLength) ? lines : fillLines(words, maxLineLength);
+};
+
+export const buildCues = (transcript: Transcript, options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): SubtitleCue[] => {
+  const maxCueChars = options.maxLineLength * options.maxLines;
+  const fits = (text: string) => fitsLines(text, options.maxLineLength, options.maxLines);
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of transcript.segments) {
+    if (!segment.text) continue;
+
+    let words: TranscriptWord[] = [];
+    const flush = () => {
+      if (!words.length) return;
+      cues.push({
+        start: words[0].start,
+        end: words[words.length - 1].end,
+        lines: wrapLines(words.map(word => word.text).join(' '), options.maxLineLength, options.maxLines),
+        speaker: segment.speaker
+      });
+      words = [];
+    };
+
+    for (const word of wordsFor(segment)) {
+      const text = [...words, word].map(w => w.text).join(' ');
+      const previous = words[words.length - 1];
+      const pause = previous ? word.start - previous.end : 0;
+
+      // Words that would not fit the cue's lines start the next cue
+      if (words.length && (!fits(text) || pause > CUE_BREAK_GAP_MS)) {
+        flush();
+      }
+      words.push(word);
+
+      // Sentence ends are natural cue boundaries once the cue has some substance
+      const length = words.map(w => w.text).join(' ').length;
+      if (/[.!?]$/.test(word.text) && length > maxCueChars / 2) {
+        flush();
+      }
+    }
+    flush();
+  }
+
+  // Stretch fast cues into the following gap so they can be read in time
+  cues.forEach((cue, index) => {
+    const chars = cue.lines.join(' ').length;
+    const needed = Math.max(MIN_CUE_DURATION_MS, (chars / options.maxCharsPerSecond) * 1000);
+    const next = cues[index + 1];
+    const limit = next ? next.start : Number.POSITIVE_INFINITY;
+    if (cue.end - cue.start < needed) {
+      cue.end = Math.max(cue.end, Math.min(cue.start + needed, limit));
+    }
+  });
+
+  return cues;
+};
+
+const formatCueTime = (ms: number, separator: ',' | '.'): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const mins = Math.floor((total % 3_600_000) / 60_000);
+  const secs = Math.floor((total % 60_000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, width = 2) => value.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}${separator}${pad(millis, 3)}`;
+};
+
+export const toSrt = (cues: SubtitleCue[]): string => {
+  return cues
+    .map((cue, index) => [
+      index + 1,
+      `${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}`,
+      ...cue.lines
+    ].join('\n'))
+    .join('\n\n') + '\n';
+};
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toVtt = (cues: SubtitleCue[]): string => {
+  const body = cues.map(cue => {
+    const lines = cue.lines.map(escapeVtt);
+    if (cue.speaker) {
+      lines[0] = `<v ${escapeVtt(cue.speaker)}>${lines[0]}`;
+    }
+    return [`${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}`, ...lines].join('\n');
+  });
+  return ['WEBVTT', ...body].join('\n\n') + '\n';
+};
+
+export const buildSubtitles = (
+  transcript: Transcript,
+  format: SubtitleFormat,
+  options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS
+): Blob => {
+  const cues = buildCues(transcript, options);
+  return format === 'srt'
+    ? new Blob([toSrt(cues)], { type: 'application/x-subrip' })
+    : new Blob([toVtt(cues)], { type: 'text/vtt' });
+};
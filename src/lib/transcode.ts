@@ -0,0 +1,370 @@
+// Converts recordings to formats that play anywhere (MP4), drop into tickets
+// (GIF, animated WebP) or only carry the sound (MP3, WAV, Opus). ffmpeg.wasm
+// does the work in its own worker; its ~30 MB core ships with the app and is
+// only loaded on first use.
+
+import { FFFSType, FFmpeg } from '@ffmpeg/ffmpeg';
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+
+export type TranscodeFormatId = 'mp4' | 'gif' | 'webp' | 'mp3' | 'wav' | 'opus';
+
+export interface TranscodeFormat {
+  id: TranscodeFormatId;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  kind: 'video' | 'animation' | 'audio';
+}
+
+export const TRANSCODE_FORMATS: TranscodeFormat[] = [
+  {
+    id: 'mp4',
+    label: 'MP4 (H.264/AAC)',
+    description: 'Plays almost everywhere, including QuickTime and older Windows players.',
+    extension: 'mp4',
+    mimeType: 'video/mp4',
+    kind: 'video'
+  },
+  {
+    id: 'gif',
+    label: 'Animated GIF',
+    description: 'A short silent clip for tickets and chat. Large, and limited to 256 colours.',
+    extension: 'gif',
+    mimeType: 'image/gif',
+    kind: 'animation'
+  },
+  {
+    id: 'webp',
+    label: 'Animated WebP',
+    description: 'Like a GIF with full colour and much smaller files, where WebP is supported.',
+    extension: 'webp',
+    mimeType: 'image/webp',
+    kind: 'animation'
+  },
+  {
+    id: 'mp3',
+    label: 'MP3',
+    description: 'The audio only, for any player.',
+    extension: 'mp3',
+    mimeType: 'audio/mpeg',
+    kind: 'audio'
+  },
+  {
+    id: 'wav',
+    label: 'WAV',
+    description: 'Uncompressed audio, for editing elsewhere.',
+    extension: 'wav',
+    mimeType: 'audio/wav',
+    kind: 'audio'
+  },
+  {
+    id: 'opus',
+    label: 'Opus',
+    description: 'The audio only, smallest at a given quality.',
+    extension: 'opus',
+    mimeType: 'audio/ogg',
+    kind: 'audio'
+  }
+];
+
+export type GifDither = 'none' | 'bayer' | 'floyd_steinberg' | 'sierra2_4a';
+
+export interface AnimationSettings {
+  /** Seconds into the recording. */
+  start: number;
+  /** Seconds. */
+  length: number;
+  fps: number;
+  /** Output width in pixels; the height follows the aspect ratio. */
+  width: number;
+  /** GIF only: palette size, 2-256. */
+  colors: number;
+  /** GIF only. */
+  dither: GifDither;
+}
+
+export interface TranscodeSettings {
+  formatId: TranscodeFormatId;
+  /** x264 constant rate factor: lower is better and larger. */
+  videoQuality: number;
+  /** Kbps, for the lossy audio formats and MP4's AAC track. */
+  audioBitrate: number;
+  animation: AnimationSettings;
+}
+
+export const DEFAULT_TRANSCODE_SETTINGS: TranscodeSettings = {
+  formatId: 'mp4',
+  videoQuality: 23,
+  audioBitrate: 128,
+  animation: {
+    start: 0,
+    length: 10,
+    fps: 12,
+    width: 640,
+    colors: 256,
+    dither: 'sierra2_4a'
+  }
+};
+
+export const GIF_DITHER_LABELS: Record<GifDither, string> = {
+  none: 'None',
+  bayer: 'Ordered (Bayer)',
+  floyd_steinberg: 'Floyd–Steinberg',
+  sierra2_4a: 'Sierra Lite'
+};
+
+export interface TranscodeOptions {
+  /** Seconds; how long the output will be, for progress reporting. */
+  duration: number;
+  signal?: AbortSignal;
+  /** 0..1. */
+  onProgress?: (progress: number) => void;
+  /** Called when the ffmpeg core has to be loaded first. */
+  onLoading?: () => void;
+}
+
+export class TranscodeCancelledError extends Error {
+  constructor() {
+    super('Export was cancelled');
+    this.name = 'TranscodeCancelledError';
+  }
+}
+
+const INPUT_DIR = '/input';
+
+export const getTranscodeFormat = (id: TranscodeFormatId): TranscodeFormat => {
+  return TRANSCODE_FORMATS.find(format => format.id === id) ?? TRANSCODE_FORMATS[0];
+};
+
+/** The ffmpeg arguments that turn `input` into `output` with `settings`. */
+export const transcodeArgs = (settings: TranscodeSettings, input: string, output: string): string[] => {
+  const { animation } = settings;
+  const audioBitrate = `${settings.audioBitrate}k`;
+
+  switch (settings.formatId) {
+    case 'mp4':
+      return [
+        '-i', input,
+        '-c:v', 'libx264', '-preset', 'veryfast', '-crf', String(settings.videoQuality),
+        // H.264 players expect 4:2:0, which needs even dimensions
+        '-pix_fmt', 'yuv420p', '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+        '-c:a', 'aac', '-b:a', audioBitrate,
+        // Index up front, so playback can start before the whole file is read
+        '-movflags', '+faststart',
+        output
+      ];
+    case 'gif': {
+      // A palette made for this clip looks far better than the generic one
+      const filters = [
+        `fps=${animation.fps},scale=${animation.width}:-2:flags=lanczos,split[a][b]`,
+        `[a]palettegen=max_colors=${animation.colors}:stats_mode=diff[palette]`,
+        `[b][palette]paletteuse=dither=${animation.dither}`
+      ].join(';');
+      return [
+        '-ss', String(animation.start), '-t', String(animation.length), '-i', input,
+        '-filter_complex', filters, '-loop', '0',
+        output
+      ];
+    }
+    case 'webp':
+      return [
+        '-ss', String(animation.start), '-t', String(animation.length), '-i', input,
+        '-vf', `fps=${animation.fps},scale=${animation.width}:-2:flags=lanczos`,
+        '-c:v', 'libwebp', '-quality', '75', '-loop', '0', '-an',
+        output
+      ];
+    case 'mp3':
+      return ['-i', input, '-vn', '-c:a', 'libmp3lame', '-b:a', audioBitrate, output];
+    case 'wav':
+      return ['-i', input, '-vn', '-c:a', 'pcm_s16le', output];
+    case 'opus':
+      return ['-i', input, '-vn', '-c:a', 'libopus', '-b:a', audioBitrate, output];
+  }
+};
+
+/** Seconds into the output that ffmpeg reports having written, from a `time=00:01:02.50` log line. */
+const parseLogTime = (message: string): number | null => {
+  const match = /time=(\d+):(\d+):(\d+(?:\.\d+)?)/.exec(message);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+let instance: Promise<FFmpeg> | null = null;
+
+const loadFFmpeg = (): Promise<FFmpeg> => {
+  if (!instance) {
+    const ffmpeg = new FFmpeg();
+    const loading = ffmpeg.load({ coreURL, wasmURL }).then(() => ffmpeg);
+    instance = loading;
+    // A failed load can be retried on the next export, unless a newer worker has taken its place
+    loading.catch(() => {
+      if (instance === loading) instance = null;
+    });
+  }
+  return instance;
+};
+
+/** Stops a running export the only way ffmpeg.wasm allows: by dropping its worker. */
+const terminateFFmpeg = async () => {
+  const running = instance;
+  instance = null;
+  (await running?.catch(() => null))?.terminate();
+};
+
+let runCounter = 0;
+// Settles once every run queued so far has finished
+let queue: Promise<void> = Promise.resolve();
+
+/** Resolves once `previous` has, or rejects as soon as `signal` aborts. */
+const waitForTurn = (previous: Promise<void>, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(new TranscodeCancelledError());
+    signal?.addEventListener('abort', abort, { once: true });
+    previous.then(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    });
+  });
+};
+
+interface MountOptions {
+  signal?: AbortSignal;
+  onLoading?: () => void;
+  onLog?: (message: string) => void;
+}
+
+/** Mounts `recording` in the shared ffmpeg worker and hands its path to `work`; aborting `signal` terminates the worker. */
+const runMounted = async <T>(
+  recording: Blob,
+  { signal, onLoading, onLog }: MountOptions,
+  work: (ffmpeg: FFmpeg, input: string, run: number) => Promise<T>
+): Promise<T> => {
+  const cancel = () => void terminateFFmpeg();
+  signal?.addEventListener('abort', cancel);
+
+  if (!instance) onLoading?.();
+  const ffmpeg = await loadFFmpeg();
+  const run = runCounter++;
+  const mountPoint = `${INPUT_DIR}-${run}`;
+  const handleLog = ({ message }: { message: string }) => onLog?.(message);
+
+  try {
+    // Mounting reads the blob on demand instead of copying it into the worker
+    await ffmpeg.createDir(mountPoint);
+    await ffmpeg.mount(FFFSType.WORKERFS, { blobs: [{ name: 'recording', data: recording }] }, mountPoint);
+    ffmpeg.on('log', handleLog);
+    return await work(ffmpeg, `${mountPoint}/recording`, run);
+  } catch (error) {
+    // Terminating the worker rejects whatever call was in flight
+    if (signal?.aborted) throw new TranscodeCancelledError();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    if (!signal?.aborted) {
+      ffmpeg.off('log', handleLog);
+      await ffmpeg.unmount(mountPoint).catch(() => undefined);
+      await ffmpeg.deleteDir(mountPoint).catch(() => undefined);
+    }
+  }
+};
+
+/** Runs `work` on the mounted `recording` once every earlier run has finished. */
+const withRecording = async <T>(
+  recording: Blob,
+  { signal, onLoading, onLog }: MountOptions,
+  work: (ffmpeg: FFmpeg, input: string, run: number) => Promise<T>
+): Promise<T> => {
+  if (signal?.aborted) throw new TranscodeCancelledError();
+
+  // Runs share the worker and its log, so each waits for the ones queued before it
+  let release = () => {};
+  const finished = new Promise<void>(resolve => (release = resolve));
+  const turn = queue;
+  queue = turn.then(() => finished);
+  try {
+    await waitForTurn(turn, signal);
+    return await runMounted(recording, { signal, onLoading, onLog }, work);
+  } finally {
+    release();
+  }
+};
+
+export interface FFmpegJob {
+  /** The ffmpeg arguments that turn `input` into `output`. */
+  args: (input: string, output: string) => string[];
+  extension: string;
+  mimeType: string;
+  /** The error to report when ffmpeg fails. */
+  failure: string;
+}
+
+/** Runs `job` over `recording` and returns the file it wrote. */
+export const runFFmpeg = (recording: Blob, job: FFmpegJob, options: TranscodeOptions): Promise<Blob> => {
+  const { signal, onProgress, onLoading, duration } = options;
+  const onLog = (message: string) => {
+    const time = parseLogTime(message);
+    if (time !== null && duration > 0) onProgress?.(Math.min(1, time / duration));
+  };
+
+  return withRecording(recording, { signal, onLoading, onLog }, async (ffmpeg, input, run) => {
+    const output = `output-${run}.${job.extension}`;
+    try {
+      const exitCode = await ffmpeg.exec(job.args(input, output));
+      if (signal?.aborted) throw new TranscodeCancelledError();
+      if (exitCode !== 0) throw new Error(job.failure);
+
+      const data = await ffmpeg.readFile(output);
+      onProgress?.(1);
+      return new Blob([data], { type: job.mimeType });
+    } finally {
+      if (!signal?.aborted) await ffmpeg.deleteFile(output).catch(() => undefined);
+    }
+  });
+};
+
+export interface RecordingStreams {
+  video: boolean;
+  audio: boolean;
+}
+
+/** Which kinds of stream ffmpeg finds in `recording`. */
+export const probeRecording = (
+  recording: Blob,
+  options: Pick<TranscodeOptions, 'signal' | 'onLoading'> = {}
+): Promise<RecordingStreams> => {
+  const streams: RecordingStreams = { video: false, audio: false };
+  const onLog = (message: string) => {
+    const match = /Stream #\d+:\d+.*?: (Video|Audio):/.exec(message);
+    if (match) streams[match[1] === 'Video' ? 'video' : 'audio'] = true;
+  };
+
+  return withRecording(recording, { ...options, onLog }, async (ffmpeg, input) => {
+    // Without an output ffmpeg lists the input's streams and exits with an error
+    await ffmpeg.exec(['-hide_banner', '-i', input]);
+    return streams;
+  });
+};
+
+/**
+ * Converts `recording` to `settings.formatId`. Exports run one at a time on a
+ * shared ffmpeg worker; cancelling one terminates that worker.
+ */
+export const transcodeRecording = (
+  recording: Blob,
+  settings: TranscodeSettings,
+  options: TranscodeOptions
+): Promise<Blob> => {
+  const format = getTranscodeFormat(settings.formatId);
+  return runFFmpeg(
+    recording,
+    {
+      args: (input, output) => transcodeArgs(settings, input, output),
+      extension: format.extension,
+      mimeType: format.mimeType,
+      failure: `ffmpeg could not convert the recording to ${format.label}`
+    },
+    options
+  );
+};
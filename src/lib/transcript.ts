@@ -0,0 +1,83 @@
+// Structured transcript model shared by the transcription engines, the
+// transcript view and the exporters. All times are milliseconds from the start
+// of the recording.
+
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export interface TranscriptSegment {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+  /** 0..1, when the engine reports one. */
+  confidence?: number;
+  speaker?: string;
+  words?: TranscriptWord[];
+}
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  language?: string;
+}
+
+export const EMPTY_TRANSCRIPT: Transcript = { segments: [] };
+
+let segmentCounter = 0;
+
+export const createSegment = (segment: Omit<TranscriptSegment, 'id'>): TranscriptSegment => ({
+  id: `segment-${Date.now().toString(36)}-${(segmentCounter++).toString(36)}`,
+  ...segment,
+  text: segment.text.trim()
+});
+
+export const isTranscriptEmpty = (transcript: Transcript | null): boolean => {
+  return !transcript || transcript.segments.every(segment => !segment.text);
+};
+
+/** `mm:ss`, or `h:mm:ss` past the hour. */
+export const formatTimestamp = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+export const transcriptToText = (
+  transcript: Transcript,
+  options: { timestamps?: boolean } = {}
+): string => {
+  if (!options.timestamps) {
+    return transcript.segments.map(segment => segment.text).filter(Boolean).join(' ');
+  }
+
+  return transcript.segments
+    .filter(segment => segment.text)
+    .map(segment => {
+      const speaker = segment.speaker ? ` ${segment.speaker}:` : '';
+      return `[${formatTimestamp(segment.start)}]${speaker} ${segment.text}`;
+    })
+    .join('\n');
+};
+
+/** Distributes `words` into the segments whose time range contains their midpoint. */
+export const attachWords = (segments: TranscriptSegment[], words: TranscriptWord[]): TranscriptSegment[] => {
+  if (!words.length) return segments;
+
+  return segments.map(segment => ({
+    ...segment,
+    words: words.filter(word => {
+      const midpoint = (word.start + word.end) / 2;
+      return midpoint >= segment.start && midpoint < segment.end;
+    })
+  }));
+};
@@ -0,0 +1,128 @@
+import { ExtractedAudio, concatSamples, encodeWav } from '@/lib/audio-extraction';
+import {
+  EMPTY_TRANSCRIPT,
+  Transcript,
+  TranscriptWord,
+  attachWords,
+  createSegment
+} from '@/lib/transcript';
+import {
+  TranscriptionCancelledError,
+  TranscriptionEngine,
+  TranscriptionOptions
+} from './types';
+
+// `verbose_json` response body; times are in seconds
+interface VerboseTranscription {
+  text?: string;
+  language?: string;
+  duration?: number;
+  segments?: { start: number; end: number; text: string; avg_logprob?: number; speaker?: string }[];
+  words?: { word: string; start: number; end: number; probability?: number }[];
+}
+
+export const DEFAULT_TRANSCRIPTION_ENDPOINT =
+  import.meta.env.VITE_TRANSCRIPTION_ENDPOINT || 'http://localhost:8000/v1/audio/transcriptions';
+
+/**
+ * Posts the recorded audio to a self-hosted speech-to-text server speaking the
+ * OpenAI `audio/transcriptions` API (faster-whisper-server, whisper.cpp's
+ * server, LocalAI, ...).
+ */
+export class HttpTranscriptionEngine implements TranscriptionEngine {
+  readonly id = 'http';
+  readonly mode = 'batch';
+
+  private chunks: ExtractedAudio[] = [];
+  private options: TranscriptionOptions = {};
+  private controller: AbortController | null = null;
+
+  constructor(
+    private readonly endpoint: string = DEFAULT_TRANSCRIPTION_ENDPOINT,
+    private readonly model: string = 'whisper-1'
+  ) {}
+
+  async start(options: TranscriptionOptions = {}) {
+    this.options = options;
+    this.chunks = [];
+    this.controller = new AbortController();
+  }
+
+  feed(audio: ExtractedAudio) {
+    this.chunks.push(audio);
+  }
+
+  async finish(): Promise<Transcript> {
+    const { onProgress, language } = this.options;
+    if (!this.chunks.length) return EMPTY_TRANSCRIPT;
+
+    const wav = this.chunks.length === 1
+      ? this.chunks[0].wav
+      : encodeWav(concatSamples(this.chunks.map(chunk => chunk.samples)), this.chunks[0].sampleRate);
+    const body = new FormData();
+    body.append('file', wav, 'recording.wav');
+    body.append('model', this.model);
+    body.append('response_format', 'verbose_json');
+    body.append('timestamp_granularities[]', 'segment');
+    body.append('timestamp_granularities[]', 'word');
+    if (language) {
+      body.append('language', language.split('-')[0]);
+    }
+
+    onProgress?.({ stage: 'transcribing', message: 'Uploading audio for transcription...' });
+
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        body,
+        signal: this.controller?.signal
+      });
+    } catch {
+      if (this.controller?.signal.aborted) {
+        throw new TranscriptionCancelledError();
+      }
+      throw new Error(`Could not reach transcription server at ${this.endpoint}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Transcription server responded with ${response.status} ${response.statusText}`);
+    }
+
+    const result: VerboseTranscription = await response.json();
+    onProgress?.({ stage: 'done', progress: 1 });
+    return this.toTranscript(result);
+  }
+
+  cancel() {
+    this.chunks = [];
+    this.controller?.abort();
+  }
+
+  private toTranscript(result: VerboseTranscription): Transcript {
+    const language = result.language ?? this.options.language;
+
+    // Servers that ignore verbose_json still send the plain text
+    if (!result.segments?.length) {
+      const text = (result.text ?? '').trim();
+      const end = (result.duration ?? this.chunks[0]?.duration ?? 0) * 1000;
+      return { segments: text ? [createSegment({ start: 0, end, text })] : [], language };
+    }
+
+    const words: TranscriptWord[] = (result.words ?? []).map(word => ({
+      text: word.word.trim(),
+      start: word.start * 1000,
+      end: word.end * 1000,
+      confidence: word.probability
+    }));
+    const segments = result.segments.map(segment => createSegment({
+      start: segment.start * 1000,
+      end: segment.end * 1000,
+      text: segment.text,
+      confidence: segment.avg_logprob !== undefined ? Math.exp(segment.avg_logprob) : undefined,
+      speaker: segment.speaker
+    }));
+
+    return { segments: attachWords(segments, words), language };
+  }
+}
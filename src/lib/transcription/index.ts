@@ -0,0 +1,53 @@
+import { HttpTranscriptionEngine } from './http';
+import { TranscriptionEngine, TranscriptionEngineId } from './types';
+import { WebSpeechEngine, isWebSpeechSupported } from './web-speech';
+import { WhisperWasmEngine } from './whisper';
+
+export * from './types';
+export { DEFAULT_TRANSCRIPTION_ENDPOINT } from './http';
+
+export interface TranscriptionSettings {
+  engineId: TranscriptionEngineId;
+  httpEndpoint: string;
+  language: string;
+}
+
+export interface TranscriptionEngineInfo {
+  id: TranscriptionEngineId;
+  label: string;
+  description: string;
+  isSupported: () => boolean;
+}
+
+export const TRANSCRIPTION_ENGINES: TranscriptionEngineInfo[] = [
+  {
+    id: 'whisper-wasm',
+    label: 'Whisper (in browser)',
+    description: 'Runs Whisper locally with WebAssembly. Downloads the model on first use.',
+    isSupported: () => typeof Worker !== 'undefined' && typeof OfflineAudioContext !== 'undefined'
+  },
+  {
+    id: 'web-speech',
+    label: 'Live (Web Speech API)',
+    description: 'Transcribes your microphone while recording. Does not hear system audio.',
+    isSupported: isWebSpeechSupported
+  },
+  {
+    id: 'http',
+    label: 'Local server (HTTP)',
+    description: 'Sends audio to an OpenAI-compatible transcription endpoint you host.',
+    isSupported: () => typeof fetch !== 'undefined'
+  }
+];
+
+export const createTranscriptionEngine = (settings: TranscriptionSettings): TranscriptionEngine => {
+  switch (settings.engineId) {
+    case 'web-speech':
+      return new WebSpeechEngine();
+    case 'http':
+      return new HttpTranscriptionEngine(settings.httpEndpoint);
+    case 'whisper-wasm':
+    default:
+      return new WhisperWasmEngine();
+  }
+};
@@ -0,0 +1,44 @@
+import type { ExtractedAudio } from '@/lib/audio-extraction';
+import type { Transcript } from '@/lib/transcript';
+
+export type TranscriptionEngineId = 'web-speech' | 'whisper-wasm' | 'http';
+
+export interface TranscriptionProgress {
+  stage: 'loading' | 'listening' | 'transcribing' | 'done';
+  /** 0..1 when the engine can tell, undefined for indeterminate work. */
+  progress?: number;
+  message?: string;
+}
+
+export interface TranscriptionOptions {
+  /** BCP 47 tag, e.g. `en-US`. Engines fall back to their own detection when omitted. */
+  language?: string;
+  onProgress?: (progress: TranscriptionProgress) => void;
+}
+
+/**
+ * A speech-to-text backend. A session is `start` → any number of `feed` calls →
+ * `finish`, which resolves with the timestamped transcript. `cancel` aborts the
+ * session and makes a pending `finish` reject with `TranscriptionCancelledError`.
+ *
+ * Live engines listen while the recording is running and ignore fed audio; they
+ * implement `pause`/`resume` so their timestamps follow the recording's clock.
+ * Batch engines only do work once the recorded audio has been fed.
+ */
+export interface TranscriptionEngine {
+  readonly id: TranscriptionEngineId;
+  readonly mode: 'live' | 'batch';
+  start(options?: TranscriptionOptions): Promise<void>;
+  feed(audio: ExtractedAudio): void;
+  finish(): Promise<Transcript>;
+  cancel(): void;
+  pause?(): void;
+  resume?(): void;
+}
+
+export class TranscriptionCancelledError extends Error {
+  constructor() {
+    super('Transcription was cancelled');
+    this.name = 'TranscriptionCancelledError';
+  }
+}
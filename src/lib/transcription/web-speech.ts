@@ -0,0 +1,202 @@
+import { Transcript, TranscriptSegment, createSegment } from '@/lib/transcript';
+import {
+  TranscriptionCancelledError,
+  TranscriptionEngine,
+  TranscriptionOptions
+} from './types';
+
+// The Web Speech API is not in the TypeScript DOM lib yet; this is the subset we use.
+interface SpeechRecognitionAlternativeLike {
+  transcript: string;
+  confidence: number;
+}
+
+interface SpeechRecognitionResultLike {
+  readonly isFinal: boolean;
+  readonly length: number;
+  [index: number]: SpeechRecognitionAlternativeLike;
+}
+
+interface SpeechRecognitionEventLike extends Event {
+  readonly resultIndex: number;
+  readonly results: ArrayLike<SpeechRecognitionResultLike>;
+}
+
+interface SpeechRecognitionErrorEventLike extends Event {
+  readonly error: string;
+}
+
+interface SpeechRecognitionLike extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEventLike) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | undefined => {
+  const scope = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+};
+
+export const isWebSpeechSupported = (): boolean => !!getSpeechRecognition();
+
+/**
+ * Live transcription through the browser's speech recognizer. It listens to the
+ * default microphone while recording, so it only hears the local speaker, not
+ * system or tab audio.
+ */
+export class WebSpeechEngine implements TranscriptionEngine {
+  readonly id = 'web-speech';
+  readonly mode = 'live';
+
+  private recognition: SpeechRecognitionLike | null = null;
+  private segments: TranscriptSegment[] = [];
+  // When each in-progress result was first heard, keyed by result index
+  private resultStarts = new Map<number, number>();
+  private language = '';
+  private listening = false;
+  private paused = false;
+  // stop() ends recognition asynchronously; start() before onend throws InvalidStateError
+  private stopping = false;
+  private startedAt = 0;
+  private pausedAt = 0;
+  private pausedTotal = 0;
+  private cancelled = false;
+  private fatalError: string | null = null;
+  private ended: Promise<void> = Promise.resolve();
+
+  async start(options: TranscriptionOptions = {}) {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) {
+      throw new Error('Live transcription is not supported in this browser');
+    }
+
+    this.segments = [];
+    this.resultStarts.clear();
+    this.cancelled = false;
+    this.fatalError = null;
+    this.listening = true;
+    this.paused = false;
+    this.stopping = false;
+    this.startedAt = performance.now();
+    this.pausedTotal = 0;
+    this.language = options.language || navigator.language;
+
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    // Interim results tell us when speech started, not just when it was finalized
+    recognition.interimResults = true;
+    recognition.lang = this.language;
+    this.recognition = recognition;
+
+    recognition.onresult = (event) => {
+      const now = this.elapsed();
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (!this.resultStarts.has(i)) {
+          this.resultStarts.set(i, now);
+        }
+        if (result.isFinal && result[0].transcript.trim()) {
+          this.segments.push(createSegment({
+            start: this.resultStarts.get(i) ?? now,
+            end: now,
+            text: result[0].transcript,
+            confidence: result[0].confidence || undefined
+          }));
+        }
+      }
+    };
+
+    recognition.onerror = (event) => {
+      // Silence and aborts are routine; anything else ends the session
+      if (event.error !== 'no-speech' && event.error !== 'aborted') {
+        this.fatalError = event.error;
+        this.listening = false;
+      }
+    };
+
+    this.ended = new Promise(resolve => {
+      recognition.onend = () => {
+        this.stopping = false;
+        // Chrome ends continuous recognition after a stretch of silence
+        if (this.listening && this.recognition === recognition) {
+          // Result indexes restart with the new recognition session
+          this.resultStarts.clear();
+          if (!this.paused) recognition.start();
+          return;
+        }
+        resolve();
+      };
+    });
+
+    recognition.start();
+    options.onProgress?.({ stage: 'listening', message: 'Listening for speech...' });
+  }
+
+  feed() {
+    // Audio comes straight from the microphone while recording
+  }
+
+  pause() {
+    if (!this.listening || this.paused) return;
+    this.paused = true;
+    this.pausedAt = performance.now();
+    if (this.recognition) {
+      this.stopping = true;
+      this.recognition.stop();
+    }
+  }
+
+  resume() {
+    if (!this.listening || !this.paused) return;
+    this.paused = false;
+    this.pausedTotal += performance.now() - this.pausedAt;
+    this.resultStarts.clear();
+    // Still stopping from the pause: onend restarts it, now that we are no longer paused
+    if (!this.stopping) this.recognition?.start();
+  }
+
+  async finish(): Promise<Transcript> {
+    if (this.recognition && this.listening) {
+      this.listening = false;
+      if (this.paused) {
+        // Already stopped; onend will not fire again
+        this.recognition = null;
+        this.paused = false;
+        return { segments: this.segments, language: this.language };
+      }
+      this.recognition.stop();
+    }
+    await this.ended;
+    this.recognition = null;
+
+    if (this.cancelled) {
+      throw new TranscriptionCancelledError();
+    }
+    if (this.fatalError) {
+      throw new Error(`Speech recognition failed: ${this.fatalError}`);
+    }
+    return { segments: this.segments, language: this.language };
+  }
+
+  cancel() {
+    this.cancelled = true;
+    this.listening = false;
+    this.recognition?.abort();
+  }
+
+  /** Milliseconds of recording time, excluding paused stretches. */
+  private elapsed(): number {
+    return performance.now() - this.startedAt - this.pausedTotal;
+  }
+}
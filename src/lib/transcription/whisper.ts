@@ -0,0 +1,110 @@
+import { ExtractedAudio, concatSamples } from '@/lib/audio-extraction';
+import { EMPTY_TRANSCRIPT, Transcript, createSegment } from '@/lib/transcript';
+import {
+  TranscriptionCancelledError,
+  TranscriptionEngine,
+  TranscriptionOptions
+} from './types';
+import type { WhisperRequest, WhisperResponse } from './whisper.worker';
+
+export const DEFAULT_WHISPER_MODEL = 'Xenova/whisper-tiny.en';
+
+/**
+ * In-browser Whisper running on WebAssembly in a dedicated worker. Nothing
+ * leaves the device; the first run downloads the model weights.
+ */
+export class WhisperWasmEngine implements TranscriptionEngine {
+  readonly id = 'whisper-wasm';
+  readonly mode = 'batch';
+
+  private worker: Worker | null = null;
+  private chunks: Float32Array[] = [];
+  private options: TranscriptionOptions = {};
+  private rejectPending: ((error: Error) => void) | null = null;
+  private cancelled = false;
+
+  constructor(private readonly model: string = DEFAULT_WHISPER_MODEL) {}
+
+  async start(options: TranscriptionOptions = {}) {
+    this.options = options;
+    this.chunks = [];
+    this.cancelled = false;
+  }
+
+  feed(audio: ExtractedAudio) {
+    // extractAudio already delivers the 16 kHz mono PCM Whisper expects
+    this.chunks.push(audio.samples);
+  }
+
+  async finish(): Promise<Transcript> {
+    const { onProgress, language } = this.options;
+    if (this.cancelled) throw new TranscriptionCancelledError();
+
+    const audio = concatSamples(this.chunks);
+    this.chunks = [];
+    if (!audio.length) return EMPTY_TRANSCRIPT;
+
+    const worker = this.getWorker();
+    return new Promise<Transcript>((resolve, reject) => {
+      this.rejectPending = reject;
+
+      worker.onmessage = (event: MessageEvent<WhisperResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'loading':
+            onProgress?.({ stage: 'loading', progress: message.progress, message: 'Loading Whisper model...' });
+            break;
+          case 'transcribing':
+            onProgress?.({ stage: 'transcribing', message: 'Transcribing audio...' });
+            break;
+          case 'result':
+            this.rejectPending = null;
+            this.releaseWorker();
+            onProgress?.({ stage: 'done', progress: 1 });
+            resolve({
+              segments: message.chunks.map(chunk => createSegment(chunk)).filter(segment => segment.text),
+              language: language || (this.model.endsWith('.en') ? 'en' : undefined)
+            });
+            break;
+          case 'error':
+            this.rejectPending = null;
+            this.releaseWorker();
+            reject(new Error(message.message));
+            break;
+        }
+      };
+
+      // Whisper wants the bare language code ("en"), not a full BCP 47 tag
+      const request: WhisperRequest = {
+        type: 'transcribe',
+        model: this.model,
+        audio,
+        language: language?.split('-')[0]
+      };
+      // Copied rather than transferred: callers keep using the extracted samples
+      worker.postMessage(request);
+    });
+  }
+
+  cancel() {
+    // Inference cannot be interrupted from outside, so drop the whole worker
+    this.releaseWorker();
+    this.chunks = [];
+    this.cancelled = true;
+    this.rejectPending?.(new TranscriptionCancelledError());
+    this.rejectPending = null;
+  }
+
+  /** The worker holds the loaded model, hundreds of MB, so it goes as soon as a session is over. */
+  private releaseWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./whisper.worker.ts', import.meta.url), { type: 'module' });
+    }
+    return this.worker;
+  }
+}
@@ -0,0 +1,85 @@
+// Runs Whisper (ONNX via transformers.js) off the main thread. The model is
+// downloaded on first use and then served from the browser cache.
+
+import {
+  pipeline,
+  type AutomaticSpeechRecognitionPipeline,
+  type ProgressInfo
+} from '@huggingface/transformers';
+
+/** Times in milliseconds. */
+export type WhisperChunk = { start: number; end: number; text: string };
+
+export type WhisperRequest = {
+  type: 'transcribe';
+  model: string;
+  audio: Float32Array;
+  language?: string;
+};
+
+export type WhisperResponse =
+  | { type: 'loading'; progress?: number }
+  | { type: 'transcribing' }
+  | { type: 'result'; chunks: WhisperChunk[] }
+  | { type: 'error'; message: string };
+
+// pipeline()'s overloads are too large for the compiler to resolve; pin the one we use
+const createPipeline = pipeline as unknown as (
+  task: 'automatic-speech-recognition',
+  model: string,
+  options: { progress_callback: (info: ProgressInfo) => void }
+) => Promise<AutomaticSpeechRecognitionPipeline>;
+
+const scope = self as unknown as Worker;
+const pipelines = new Map<string, Promise<AutomaticSpeechRecognitionPipeline>>();
+
+const post = (message: WhisperResponse) => scope.postMessage(message);
+
+const loadPipeline = (model: string) => {
+  let loader = pipelines.get(model);
+  if (!loader) {
+    loader = createPipeline('automatic-speech-recognition', model, {
+      progress_callback: (info) => {
+        if (info.status === 'progress') {
+          post({ type: 'loading', progress: info.progress / 100 });
+        }
+      }
+    });
+    pipelines.set(model, loader);
+  }
+  return loader;
+};
+
+scope.onmessage = async (event: MessageEvent<WhisperRequest>) => {
+  const { model, audio, language } = event.data;
+
+  try {
+    post({ type: 'loading' });
+    const transcriber = await loadPipeline(model);
+
+    post({ type: 'transcribing' });
+    const output = await transcriber(audio, {
+      chunk_length_s: 30,
+      stride_length_s: 5,
+      return_timestamps: true,
+      // English-only checkpoints reject a language argument
+      ...(language && !model.endsWith('.en') ? { language } : {})
+    });
+
+    const durationMs = (audio.length / 16000) * 1000;
+    const chunks = (Array.isArray(output) ? output : [output]).flatMap(item =>
+      item.chunks?.length
+        ? item.chunks.map(chunk => ({
+            start: chunk.timestamp[0] * 1000,
+            // The final chunk can come back open-ended
+            end: chunk.timestamp[1] !== null ? chunk.timestamp[1] * 1000 : durationMs,
+            text: chunk.text
+          }))
+        : [{ start: 0, end: durationMs, text: item.text }]
+    );
+    post({ type: 'result', chunks });
+  } catch (error) {
+    pipelines.delete(model);
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
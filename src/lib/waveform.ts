@@ -0,0 +1,149 @@
+// Waveform overview of a recording's audio: one peak and one loudness value
+// per short bucket, plus the stretches quiet enough to count as silence.
+// Decoding a long recording takes seconds, so results are cached per blob and
+// shared by every view of the same recording.
+
+import { decodeRecordingAudio } from '@/lib/audio-extraction';
+import type { TimeRange } from '@/lib/editing';
+
+export interface WaveformData {
+  /** Milliseconds of audio per bucket. */
+  bucketDuration: number;
+  /** Milliseconds. */
+  duration: number;
+  /** Peak amplitude per bucket, 0..1. */
+  peaks: Float32Array;
+  /** RMS loudness per bucket, 0..1. */
+  levels: Float32Array;
+  silences: TimeRange[];
+}
+
+export interface SilenceOptions {
+  /** How far below the loud parts of the recording counts as silent, in dB. */
+  relativeThresholdDb?: number;
+  /** Quieter than this (dBFS) always counts as silent. */
+  floorDb?: number;
+  /** Shorter pauses are left alone; they are part of speech. */
+  minDuration?: number;
+  /** Kept around each silence, so skipping it does not clip words. */
+  padding?: number;
+}
+
+const BUCKET_MS = 20;
+
+const DEFAULT_SILENCE_OPTIONS: Required<SilenceOptions> = {
+  relativeThresholdDb: 30,
+  floorDb: -60,
+  minDuration: 800,
+  padding: 150
+};
+
+const fromDb = (db: number) => 10 ** (db / 20);
+
+/**
+ * Quiet stretches of a recording. The threshold follows the recording's own
+ * loudness, so a quiet microphone does not read as one long silence.
+ */
+export const detectSilences = (
+  levels: Float32Array,
+  bucketDuration: number,
+  options: SilenceOptions = {}
+): TimeRange[] => {
+  const { relativeThresholdDb, floorDb, minDuration, padding } = { ...DEFAULT_SILENCE_OPTIONS, ...options };
+  if (!levels.length) return [];
+
+  // The loud parts: a high percentile, so a single pop does not set the scale
+  const sorted = Float32Array.from(levels).sort();
+  const loud = sorted[Math.floor((sorted.length - 1) * 0.95)];
+  const threshold = Math.max(fromDb(floorDb), loud * fromDb(-relativeThresholdDb));
+
+  const silences: TimeRange[] = [];
+  let silentSince: number | null = null;
+  const close = (end: number) => {
+    if (silentSince === null) return;
+    const start = silentSince * bucketDuration;
+    const endMs = end * bucketDuration;
+    // Silence at the very start or end needs no padding on that side
+    const range = {
+      start: silentSince === 0 ? 0 : start + padding,
+      end: end === levels.length ? endMs : endMs - padding
+    };
+    if (endMs - start >= minDuration && range.end > range.start) silences.push(range);
+    silentSince = null;
+  };
+
+  levels.forEach((level, index) => {
+    if (level <= threshold) silentSince ??= index;
+    else close(index);
+  });
+  close(levels.length);
+  return silences;
+};
+
+/** Buckets mono samples into peaks and RMS levels. */
+export const bucketSamples = (samples: Float32Array, sampleRate: number, bucketDuration = BUCKET_MS) => {
+  const bucketSize = Math.max(1, Math.round((sampleRate * bucketDuration) / 1000));
+  const count = Math.ceil(samples.length / bucketSize);
+  const peaks = new Float32Array(count);
+  const levels = new Float32Array(count);
+
+  for (let bucket = 0; bucket < count; bucket++) {
+    const start = bucket * bucketSize;
+    const end = Math.min(samples.length, start + bucketSize);
+    let peak = 0;
+    let sumOfSquares = 0;
+    for (let i = start; i < end; i++) {
+      const sample = Math.abs(samples[i]);
+      if (sample > peak) peak = sample;
+      sumOfSquares += sample * sample;
+    }
+    peaks[bucket] = Math.min(1, peak);
+    levels[bucket] = Math.sqrt(sumOfSquares / (end - start));
+  }
+  return { peaks, levels };
+};
+
+const computeWaveform = async (recording: Blob): Promise<WaveformData> => {
+  const decoded = await decodeRecordingAudio(recording);
+
+  // Downmix: a waveform shows how loud, not where
+  const mono = new Float32Array(decoded.length);
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const data = decoded.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / decoded.numberOfChannels;
+  }
+
+  const { peaks, levels } = bucketSamples(mono, decoded.sampleRate);
+  return {
+    bucketDuration: BUCKET_MS,
+    duration: (decoded.length / decoded.sampleRate) * 1000,
+    peaks,
+    levels,
+    silences: detectSilences(levels, BUCKET_MS)
+  };
+};
+
+const cache = new WeakMap<Blob, Promise<WaveformData>>();
+
+/** The waveform of `recording`, computed once per blob. */
+export const getWaveform = (recording: Blob): Promise<WaveformData> => {
+  let waveform = cache.get(recording);
+  if (!waveform) {
+    waveform = computeWaveform(recording);
+    cache.set(recording, waveform);
+    // Let a failed decode be tried again
+    waveform.catch(() => cache.delete(recording));
+  }
+  return waveform;
+};
+
+/** The highest peak between `start` and `end` ms, for drawing one column of the waveform. */
+export const peakBetween = (waveform: WaveformData, start: number, end: number): number => {
+  const first = Math.max(0, Math.floor(start / waveform.bucketDuration));
+  const last = Math.min(waveform.peaks.length, Math.max(first + 1, Math.ceil(end / waveform.bucketDuration)));
+  let peak = 0;
+  for (let i = first; i < last; i++) {
+    if (waveform.peaks[i] > peak) peak = waveform.peaks[i];
+  }
+  return peak;
+};
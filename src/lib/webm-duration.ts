@@ -0,0 +1,111 @@
+// MediaRecorder writes WebM as a live stream, so the file never says how long
+// it is and many players cannot seek in it. Once recording has stopped we know
+// the duration, and write it into the Segment's Info element.
+
+import { EBML_ID, EbmlElementHeader, parseWebM, readElementHeader } from '@/lib/webm';
+
+// Everything up to the first Cluster; MediaRecorder headers are a few hundred bytes
+const HEAD_BYTES = 64 * 1024;
+
+const EBML_HEADER_ID = 0x1a45dfa3;
+const SEEK_HEAD_ID = 0x114d9b74;
+
+const idLength = (id: number): number => {
+  if (id >= 0x10000000) return 4;
+  if (id >= 0x200000) return 3;
+  if (id >= 0x4000) return 2;
+  return 1;
+};
+
+/** Encodes `value` as an EBML size of exactly `length` bytes; null if it does not fit. */
+const encodeSize = (value: number, length: number): Uint8Array | null => {
+  // All value bits set is reserved for "unknown size"
+  if (value >= 2 ** (7 * length) - 1) return null;
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const encodeDuration = (ticks: number): Uint8Array => {
+  const element = new Uint8Array(2 + 1 + 8);
+  element.set([0x44, 0x89, 0x88]);
+  new DataView(element.buffer).setFloat64(3, ticks);
+  return element;
+};
+
+/** Header of each element directly inside `parent`, up to the first Cluster. */
+const childrenOf = (bytes: Uint8Array, parent: EbmlElementHeader): EbmlElementHeader[] => {
+  const end = parent.size < 0 ? bytes.length : Math.min(bytes.length, parent.dataOffset + parent.size);
+  const children: EbmlElementHeader[] = [];
+  let offset = parent.dataOffset;
+  while (offset < end) {
+    const header = readElementHeader(bytes, offset);
+    if (!header || header.id === EBML_ID.Cluster || header.size < 0) break;
+    children.push(header);
+    offset = header.dataOffset + header.size;
+  }
+  return children;
+};
+
+/**
+ * `blob` with its Duration set to `durationMs`. Anything that is not a WebM
+ * this can patch safely comes back unchanged, since an unseekable file still
+ * beats a broken one.
+ */
+export const setWebMDuration = async (blob: Blob, durationMs: number): Promise<Blob> => {
+  if (!blob.type.includes('webm') || !(durationMs > 0)) return blob;
+
+  try {
+    const head = new Uint8Array(await blob.slice(0, HEAD_BYTES).arrayBuffer());
+    const { info, timestampScale } = parseWebM(head.buffer);
+    if (!info || info.size < 0 || info.dataOffset + info.size > head.length) return blob;
+
+    const ticks = (durationMs * 1_000_000) / timestampScale;
+    const duration = childrenOf(head, info).find(child => child.id === EBML_ID.Duration);
+
+    // Already has one (e.g. patched before): overwrite it in place
+    if (duration) {
+      if (duration.size !== 4 && duration.size !== 8) return blob;
+      const patched = head.slice();
+      const view = new DataView(patched.buffer, duration.dataOffset, duration.size);
+      if (duration.size === 4) view.setFloat32(0, ticks);
+      else view.setFloat64(0, ticks);
+      return new Blob([patched, blob.slice(head.length)], { type: blob.type });
+    }
+
+    // Inserting moves everything after Info, which would break a SeekHead's offsets
+    const ebmlHeader = readElementHeader(head, 0);
+    if (!ebmlHeader || ebmlHeader.id !== EBML_HEADER_ID) return blob;
+    const segment = readElementHeader(head, ebmlHeader.dataOffset + ebmlHeader.size);
+    if (!segment || segment.id !== EBML_ID.Segment) return blob;
+    if (childrenOf(head, segment).some(child => child.id === SEEK_HEAD_ID)) return blob;
+
+    const element = encodeDuration(ticks);
+    const infoSizeLength = info.dataOffset - info.offset - idLength(info.id);
+    const infoSize = encodeSize(info.size + element.length, infoSizeLength);
+    if (!infoSize) return blob;
+
+    // A Segment of known size grows too; MediaRecorder's are usually "unknown"
+    let segmentSize: Uint8Array | null = null;
+    const segmentSizeOffset = segment.offset + idLength(segment.id);
+    if (segment.size >= 0) {
+      segmentSize = encodeSize(segment.size + element.length, segment.dataOffset - segmentSizeOffset);
+      if (!segmentSize) return blob;
+    }
+
+    const infoEnd = info.dataOffset + info.size;
+    const before = head.slice(0, infoEnd);
+    before.set(infoSize, info.offset + idLength(info.id));
+    if (segmentSize) before.set(segmentSize, segmentSizeOffset);
+
+    return new Blob([before, element, blob.slice(infoEnd)], { type: blob.type });
+  } catch (error) {
+    console.error('Error writing WebM duration:', error);
+    return blob;
+  }
+};
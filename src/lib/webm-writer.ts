@@ -0,0 +1,193 @@
+// Minimal WebM (Matroska/EBML) writer, the counterpart of webm.ts: enough to
+// mux already-encoded frames into a seekable file with a Duration and Cues.
+// Frame data is passed through by reference, never copied into one big buffer.
+
+import { EBML_ID } from '@/lib/webm';
+
+export interface WebMWriterTrack {
+  number: number;
+  kind: 'video' | 'audio';
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  width?: number;
+  height?: number;
+  samplingFrequency?: number;
+  channels?: number;
+}
+
+export interface WebMWriterFrame {
+  track: number;
+  /** Milliseconds from the start of the file. */
+  timestamp: number;
+  keyframe: boolean;
+  data: Uint8Array;
+}
+
+const ID = {
+  ...EBML_ID,
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  TrackUID: 0x73c5,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1
+} as const;
+
+const TRACK_TYPE = { video: 1, audio: 2 };
+
+// Block timestamps are 16-bit offsets from their cluster's
+const MAX_CLUSTER_SPAN_MS = 30_000;
+// Audio-only files get clusters of this length, so seeking has somewhere to land
+const AUDIO_CLUSTER_MS = 5_000;
+
+type Parts = Uint8Array[];
+
+const sizeOf = (parts: Parts) => parts.reduce((total, part) => total + part.byteLength, 0);
+
+const encodeId = (id: number): Uint8Array => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value % 256);
+  return new Uint8Array(bytes);
+};
+
+const encodeSize = (size: number): Uint8Array => {
+  let length = 1;
+  // All value bits set would read as "unknown size"
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let remaining = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const element = (id: number, parts: Parts): Parts => [encodeId(id), encodeSize(sizeOf(parts)), ...parts];
+
+const uintElement = (id: number, value: number): Parts => {
+  const bytes: number[] = [];
+  let remaining = Math.round(value);
+  do {
+    bytes.unshift(remaining % 256);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  return element(id, [new Uint8Array(bytes)]);
+};
+
+const floatElement = (id: number, value: number): Parts => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, [bytes]);
+};
+
+const stringElement = (id: number, value: string): Parts => element(id, [new TextEncoder().encode(value)]);
+
+const simpleBlock = (frame: WebMWriterFrame, clusterTimestamp: number): Parts => {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | frame.track;
+  new DataView(header.buffer).setInt16(1, Math.round(frame.timestamp) - clusterTimestamp);
+  header[3] = frame.keyframe ? 0x80 : 0;
+  return element(ID.SimpleBlock, [header, frame.data]);
+};
+
+const trackEntry = (track: WebMWriterTrack): Parts => element(ID.TrackEntry, [
+  ...uintElement(ID.TrackNumber, track.number),
+  ...uintElement(ID.TrackUID, track.number),
+  ...uintElement(ID.TrackType, TRACK_TYPE[track.kind]),
+  ...stringElement(ID.CodecID, track.codecId),
+  ...(track.codecPrivate ? element(ID.CodecPrivate, [track.codecPrivate]) : []),
+  ...(track.kind === 'video'
+    ? element(ID.Video, [
+        ...uintElement(ID.PixelWidth, track.width ?? 0),
+        ...uintElement(ID.PixelHeight, track.height ?? 0)
+      ])
+    : element(ID.Audio, [
+        ...floatElement(ID.SamplingFrequency, track.samplingFrequency ?? 48000),
+        ...uintElement(ID.Channels, track.channels ?? 1)
+      ]))
+]);
+
+/** Muxes `frames` (in timestamp order) into a WebM file `duration` ms long. */
+export const writeWebM = (
+  tracks: WebMWriterTrack[],
+  frames: WebMWriterFrame[],
+  duration: number,
+  mimeType = 'video/webm'
+): Blob => {
+  const videoTrack = tracks.find(track => track.kind === 'video');
+
+  const ebmlHeader = element(ID.EBML, [
+    ...uintElement(ID.EBMLVersion, 1),
+    ...uintElement(ID.EBMLReadVersion, 1),
+    ...uintElement(ID.EBMLMaxIDLength, 4),
+    ...uintElement(ID.EBMLMaxSizeLength, 8),
+    ...stringElement(ID.DocType, 'webm'),
+    ...uintElement(ID.DocTypeVersion, 4),
+    ...uintElement(ID.DocTypeReadVersion, 2)
+  ]);
+
+  const info = element(ID.Info, [
+    ...uintElement(ID.TimestampScale, 1_000_000),
+    ...floatElement(ID.Duration, duration),
+    ...stringElement(ID.MuxingApp, 'record-and-connect'),
+    ...stringElement(ID.WritingApp, 'record-and-connect')
+  ]);
+  const trackList = element(ID.Tracks, tracks.flatMap(trackEntry));
+
+  // New clusters start at video keyframes, so each one is a place to seek to
+  const clusters: Parts[] = [];
+  const cuePoints: { time: number; position: number }[] = [];
+  let position = sizeOf(info) + sizeOf(trackList);
+  let blocks: Parts = [];
+  let clusterTimestamp = 0;
+
+  const closeCluster = () => {
+    if (!blocks.length) return;
+    const cluster = element(ID.Cluster, [...uintElement(ID.Timestamp, clusterTimestamp), ...blocks]);
+    cuePoints.push({ time: clusterTimestamp, position });
+    position += sizeOf(cluster);
+    clusters.push(cluster);
+    blocks = [];
+  };
+
+  for (const frame of frames) {
+    const timestamp = Math.round(frame.timestamp);
+    const startsCluster = videoTrack
+      ? frame.track === videoTrack.number && frame.keyframe
+      : timestamp - clusterTimestamp >= AUDIO_CLUSTER_MS;
+    if (!blocks.length || startsCluster || timestamp - clusterTimestamp >= MAX_CLUSTER_SPAN_MS) {
+      closeCluster();
+      clusterTimestamp = timestamp;
+    }
+    blocks.push(...simpleBlock(frame, clusterTimestamp));
+  }
+  closeCluster();
+
+  const cueTrack = videoTrack?.number ?? tracks[0]?.number ?? 1;
+  const cues = element(ID.Cues, cuePoints.flatMap(cue => element(ID.CuePoint, [
+    ...uintElement(ID.CueTime, cue.time),
+    ...element(ID.CueTrackPositions, [
+      ...uintElement(ID.CueTrack, cueTrack),
+      ...uintElement(ID.CueClusterPosition, cue.position)
+    ])
+  ])));
+
+  const segment = element(ID.Segment, [...info, ...trackList, ...clusters.flat(), ...cues]);
+  return new Blob([...ebmlHeader, ...segment], { type: mimeType });
+};
@@ -0,0 +1,228 @@
+// Minimal WebM (Matroska/EBML) reader: enough to find the tracks and frames in
+// a MediaRecorder recording. MediaRecorder writes live-style files with
+// unknown-size Segment and Cluster elements, so instead of a recursive parse we
+// walk elements linearly and step into the masters we care about.
+
+export const EBML_ID = {
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1
+} as const;
+
+const MASTER_IDS = new Set<number>([
+  EBML_ID.Segment,
+  EBML_ID.Info,
+  EBML_ID.Tracks,
+  EBML_ID.TrackEntry,
+  EBML_ID.Audio,
+  EBML_ID.Cluster,
+  EBML_ID.BlockGroup
+]);
+
+const TRACK_TYPE_AUDIO = 2;
+
+export interface EbmlElementHeader {
+  id: number;
+  /** Offset of the element's first byte (start of the ID). */
+  offset: number;
+  /** Offset of the element's payload. */
+  dataOffset: number;
+  /** Payload size in bytes, or -1 for "unknown size" (live streams). */
+  size: number;
+}
+
+export interface WebMTrack {
+  number: number;
+  type: number;
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  samplingFrequency?: number;
+  channels?: number;
+}
+
+export interface WebMFrame {
+  track: number;
+  /** Presentation time in milliseconds from the start of the file. */
+  timestamp: number;
+  keyframe: boolean;
+  data: Uint8Array;
+}
+
+export interface WebMFile {
+  /** Nanoseconds per timestamp tick (1,000,000 unless the muxer chose otherwise). */
+  timestampScale: number;
+  /** Duration in milliseconds, when the file declares one. */
+  duration?: number;
+  /** Where the Info element starts, for tools that patch it. */
+  info?: EbmlElementHeader;
+  tracks: WebMTrack[];
+  frames: WebMFrame[];
+}
+
+export class WebMParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebMParseError';
+  }
+}
+
+/** Reads an EBML variable-length integer; `keepMarker` keeps the length bits (element IDs). */
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean) => {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    if (bytes[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+};
+
+export const readElementHeader = (bytes: Uint8Array, offset: number): EbmlElementHeader | null => {
+  const id = readVint(bytes, offset, true);
+  if (!id) return null;
+  const size = readVint(bytes, offset + id.length, false);
+  if (!size) return null;
+
+  return {
+    id: id.value,
+    offset,
+    dataOffset: offset + id.length + size.length,
+    size: size.unknown ? -1 : size.value
+  };
+};
+
+const readUint = (bytes: Uint8Array, offset: number, size: number): number => {
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + bytes[offset + i];
+  return value;
+};
+
+const readFloat = (bytes: Uint8Array, offset: number, size: number): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset, size);
+  return size === 4 ? view.getFloat32(0) : view.getFloat64(0);
+};
+
+const readString = (bytes: Uint8Array, offset: number, size: number): string => {
+  return new TextDecoder().decode(bytes.subarray(offset, offset + size)).replace(/\0+$/, '');
+};
+
+export const parseWebM = (buffer: ArrayBuffer): WebMFile => {
+  const bytes = new Uint8Array(buffer);
+  const file: WebMFile = { timestampScale: 1_000_000, tracks: [], frames: [] };
+
+  let clusterTimestamp = 0;
+  let rawDuration: number | undefined;
+  let offset = 0;
+
+  const readBlock = (dataOffset: number, size: number, isSimpleBlock: boolean) => {
+    const track = readVint(bytes, dataOffset, false);
+    if (!track) return;
+
+    const headerEnd = dataOffset + track.length;
+    const relative = new DataView(bytes.buffer, bytes.byteOffset + headerEnd, 2).getInt16(0);
+    const flags = bytes[headerEnd + 2];
+    // MediaRecorder never laces frames; laced blocks would need splitting first
+    if (flags & 0x06) return;
+
+    file.frames.push({
+      track: track.value,
+      timestamp: ((clusterTimestamp + relative) * file.timestampScale) / 1_000_000,
+      keyframe: isSimpleBlock ? !!(flags & 0x80) : true,
+      data: bytes.subarray(headerEnd + 3, dataOffset + size)
+    });
+  };
+
+  while (offset < bytes.length) {
+    const header = readElementHeader(bytes, offset);
+    if (!header) break;
+
+    if (MASTER_IDS.has(header.id)) {
+      if (header.id === EBML_ID.Info) file.info = header;
+      if (header.id === EBML_ID.TrackEntry) {
+        file.tracks.push({ number: 0, type: 0, codecId: '' });
+      }
+      offset = header.dataOffset;
+      continue;
+    }
+
+    if (header.size < 0) {
+      throw new WebMParseError(`Unknown-size element 0x${header.id.toString(16)} at ${offset}`);
+    }
+
+    const { dataOffset, size } = header;
+    if (dataOffset + size > bytes.length) {
+      // Truncated tail (e.g. a recording that was cut off mid-write); keep what we have
+      break;
+    }
+
+    const track = file.tracks[file.tracks.length - 1];
+    switch (header.id) {
+      case EBML_ID.TimestampScale:
+        file.timestampScale = readUint(bytes, dataOffset, size);
+        break;
+      case EBML_ID.Duration:
+        rawDuration = readFloat(bytes, dataOffset, size);
+        break;
+      case EBML_ID.TrackNumber:
+        if (track) track.number = readUint(bytes, dataOffset, size);
+        break;
+      case EBML_ID.TrackType:
+        if (track) track.type = readUint(bytes, dataOffset, size);
+        break;
+      case EBML_ID.CodecID:
+        if (track) track.codecId = readString(bytes, dataOffset, size);
+        break;
+      case EBML_ID.CodecPrivate:
+        if (track) track.codecPrivate = bytes.subarray(dataOffset, dataOffset + size);
+        break;
+      case EBML_ID.SamplingFrequency:
+        if (track) track.samplingFrequency = readFloat(bytes, dataOffset, size);
+        break;
+      case EBML_ID.Channels:
+        if (track) track.channels = readUint(bytes, dataOffset, size);
+        break;
+      case EBML_ID.Timestamp:
+        clusterTimestamp = readUint(bytes, dataOffset, size);
+        break;
+      case EBML_ID.SimpleBlock:
+        readBlock(dataOffset, size, true);
+        break;
+      case EBML_ID.Block:
+        readBlock(dataOffset, size, false);
+        break;
+    }
+
+    offset = dataOffset + size;
+  }
+
+  if (rawDuration !== undefined) {
+    file.duration = (rawDuration * file.timestampScale) / 1_000_000;
+  }
+  return file;
+};
+
+export const findAudioTrack = (file: WebMFile): WebMTrack | undefined => {
+  return file.tracks.find(track => track.type === TRACK_TYPE_AUDIO);
+};
@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
 import { RecordingStudio } from '@/components/RecordingStudio';
 import { VoiceCallStudio } from '@/components/VoiceCallStudio';
+import { RecordingLibrary } from '@/components/RecordingLibrary';
+import { SessionRecoveryDialog } from '@/components/recording/SessionRecoveryDialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Video, Phone, Zap, Shield, Globe, Users } from 'lucide-react';
+import { Video, Phone, Zap, Shield, Globe, Users, Library } from 'lucide-react';
 
-type ActiveTab = 'recording' | 'calls' | 'home';
+type ActiveTab = 'recording' | 'library' | 'calls' | 'home';
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState<ActiveTab>('home');
@@ -14,6 +16,8 @@ const Index = () => {
     switch (activeTab) {
       case 'recording':
         return <RecordingStudio />;
+      case 'library':
+        return <RecordingLibrary />;
       case 'calls':
         return <VoiceCallStudio />;
       default:
@@ -143,7 +147,7 @@ const Index = () => {
                       <p>2. Enable/disable microphone audio</p>
                       <p>3. Click "Start Recording" to begin</p>
                       <p>4. Use pause/resume controls as needed</p>
-                      <p>5. Stop recording and download your file</p>
+                      <p>5. Stop recording; it is saved to your Library automatically</p>
                     </div>
                   </div>
                   <div className="space-y-3">
@@ -189,6 +193,14 @@ const Index = () => {
                   <Video className="h-4 w-4" />
                   Recording
                 </Button>
+                <Button
+                  variant={activeTab === 'library' ? 'default' : 'ghost'}
+                  onClick={() => setActiveTab('library')}
+                  className="flex items-center gap-2"
+                >
+                  <Library className="h-4 w-4" />
+                  Library
+                </Button>
                 <Button
                   variant={activeTab === 'calls' ? 'success' : 'ghost'}
                   onClick={() => setActiveTab('calls')}
@@ -202,6 +214,7 @@ const Index = () => {
             
             <div className="text-sm text-muted-foreground">
               {activeTab === 'recording' && '🔴 Recording Studio'}
+              {activeTab === 'library' && '📚 Recording Library'}
               {activeTab === 'calls' && '📞 Voice Calls'}
               {activeTab === 'home' && '🏠 Home'}
             </div>
@@ -214,6 +227,8 @@ const Index = () => {
         {renderContent()}
       </main>
 
+      <SessionRecoveryDialog />
+
       {/* Footer */}
       <footer className="border-t border-border bg-card/30 backdrop-blur-sm mt-16">
         <div className="container mx-auto px-4 py-6">
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SIGNALING_URL?: string;
+  readonly VITE_TRANSCRIPTION_ENDPOINT?: string;
+  readonly VITE_MINUTES_LLM_ENDPOINT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -19,4 +19,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  optimizeDeps: {
+    // ffmpeg.wasm starts its worker from a URL relative to its own module, which pre-bundling breaks
+    exclude: ["@ffmpeg/ffmpeg"],
+  },
 }));